@@ -1,32 +1,75 @@
-import { Hono } from 'hono';
+import { readFile } from 'fs/promises';
+import { Context, Hono, Next } from 'hono';
 import { serveStatic } from 'hono/bun';
 import { cors } from 'hono/cors';
 import { logger } from 'hono/logger';
 
+import { apiRateLimit } from './middleware/rateLimit';
+import { requestScreening } from './middleware/requestScreening';
+import { securityHeaders } from './middleware/securityHeaders';
+import { alertRoute } from './routes/alertRoute';
+import { alertRuleRoute } from './routes/alertRuleRoute';
+import { auditLogRoute } from './routes/auditLogRoute';
 import { authRoute } from './routes/authRoute';
+import { cspReportRoute } from './routes/cspReportRoute';
+import { ingestRoute } from './routes/ingestRoute';
+import { notificationChannelRoute } from './routes/notificationChannelRoute';
+import { personalAccessTokenRoute } from './routes/personalAccessTokenRoute';
+import { roleRoute } from './routes/roleRoute';
+import { schedulerRoute } from './routes/schedulerRoute';
+import { securityEventRoute } from './routes/securityEventRoute';
 import { serviceRoute } from './routes/serviceRoute';
+import { settingsRoute } from './routes/settingsRoute';
 import { userRoute } from './routes/userRoute';
 
 const app = new Hono();
 
 app.use('*', logger());
 app.use('*', cors());
+app.use('*', securityHeaders);
+app.use('/api/v1/*', apiRateLimit);
+app.use('/api/v1/*', requestScreening);
 
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 const apiRoutes = app
   .basePath('/api/v1')
   .route('/auth', authRoute)
   .route('/users', userRoute)
-  .route('/services', serviceRoute);
+  .route('/roles', roleRoute)
+  .route('/services', serviceRoute)
+  .route('/scheduler', schedulerRoute)
+  .route('/alert-rules', alertRuleRoute)
+  .route('/alerts', alertRoute)
+  .route('/notification-channels', notificationChannelRoute)
+  .route('/personal-access-tokens', personalAccessTokenRoute)
+  .route('/security-events', securityEventRoute)
+  .route('/audit-logs', auditLogRoute)
+  .route('/settings', settingsRoute)
+  .route('/ingest', ingestRoute)
+  .route('/csp-report', cspReportRoute);
 
 // Serve files from public directory
 app.get('/uploads/*', serveStatic({ root: './server/storage/app/public' }));
 
+// Serve index.html with the request's CSP nonce on every script tag
+const serveIndexHtml = async (c: Context, next: Next) => {
+  let html: string;
+  try {
+    html = await readFile('./frontend/dist/index.html', 'utf8');
+  } catch {
+    return next();
+  }
+  return c.html(html.replace(/<script\b/g, `<script nonce="${c.get('cspNonce')}"`));
+};
+
+app.get('/', serveIndexHtml);
+app.get('/index.html', serveIndexHtml);
+
 // Serve static files from the built frontend
 app.get('*', serveStatic({ root: './frontend/dist' }));
 
 // Fallback to index.html for client-side routing
-app.get('*', serveStatic({ path: './frontend/dist/index.html' }));
+app.get('*', serveIndexHtml);
 
 export default app;
 export type ApiRoutes = typeof apiRoutes;
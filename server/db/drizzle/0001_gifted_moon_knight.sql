@@ -0,0 +1,2 @@
+ALTER TABLE `services` ADD `sync_interval_seconds` int unsigned;--> statement-breakpoint
+ALTER TABLE `services` ADD `last_synced_at` timestamp;
\ No newline at end of file
@@ -0,0 +1,36 @@
+CREATE TABLE `alert_rules` (
+	`id` bigint unsigned AUTO_INCREMENT NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`service_id` bigint unsigned,
+	`service_type` tinyint,
+	`metric_path` varchar(255) NOT NULL,
+	`comparator` varchar(8) NOT NULL,
+	`threshold` double NOT NULL,
+	`duration_seconds` int unsigned NOT NULL DEFAULT 0,
+	`status` tinyint NOT NULL DEFAULT 1,
+	`created_at` timestamp DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()),
+	`deleted_at` timestamp,
+	CONSTRAINT `alert_rules_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `alerts` (
+	`id` bigint unsigned AUTO_INCREMENT NOT NULL,
+	`rule_id` bigint unsigned NOT NULL,
+	`service_id` bigint unsigned NOT NULL,
+	`status` tinyint NOT NULL DEFAULT 1,
+	`value` double NOT NULL,
+	`fired_at` timestamp NOT NULL,
+	`resolved_at` timestamp,
+	`created_at` timestamp DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()),
+	CONSTRAINT `alerts_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `alert_rules` ADD CONSTRAINT `alert_rules_service_id_services_id_fk` FOREIGN KEY (`service_id`) REFERENCES `services`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `alerts` ADD CONSTRAINT `alerts_rule_id_alert_rules_id_fk` FOREIGN KEY (`rule_id`) REFERENCES `alert_rules`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `alerts` ADD CONSTRAINT `alerts_service_id_services_id_fk` FOREIGN KEY (`service_id`) REFERENCES `services`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `idx_alert_rules_service_id` ON `alert_rules` (`service_id`);--> statement-breakpoint
+CREATE INDEX `idx_alert_rules_service_type` ON `alert_rules` (`service_type`);--> statement-breakpoint
+CREATE INDEX `idx_alerts_rule_id_service_id` ON `alerts` (`rule_id`,`service_id`);--> statement-breakpoint
+CREATE INDEX `idx_alerts_service_id` ON `alerts` (`service_id`);
\ No newline at end of file
@@ -0,0 +1,37 @@
+CREATE TABLE `notification_channels` (
+	`id` bigint unsigned AUTO_INCREMENT NOT NULL,
+	`user_id` bigint unsigned NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`type` varchar(16) NOT NULL,
+	`config` json NOT NULL,
+	`subject_template` varchar(255),
+	`body_template` text,
+	`status` tinyint NOT NULL DEFAULT 1,
+	`created_at` timestamp DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()),
+	`deleted_at` timestamp,
+	CONSTRAINT `notification_channels_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `notification_deliveries` (
+	`id` bigint unsigned AUTO_INCREMENT NOT NULL,
+	`channel_id` bigint unsigned NOT NULL,
+	`alert_id` bigint unsigned,
+	`event` varchar(32) NOT NULL,
+	`message` json NOT NULL,
+	`status` tinyint NOT NULL DEFAULT 0,
+	`attempts` int unsigned NOT NULL DEFAULT 0,
+	`last_error` text,
+	`next_attempt_at` timestamp,
+	`sent_at` timestamp,
+	`created_at` timestamp DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()),
+	CONSTRAINT `notification_deliveries_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `notification_channels` ADD CONSTRAINT `notification_channels_user_id_users_id_fk` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `notification_deliveries` ADD CONSTRAINT `notification_deliveries_channel_id_notification_channels_id_fk` FOREIGN KEY (`channel_id`) REFERENCES `notification_channels`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `notification_deliveries` ADD CONSTRAINT `notification_deliveries_alert_id_alerts_id_fk` FOREIGN KEY (`alert_id`) REFERENCES `alerts`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `idx_notification_channels_user_id` ON `notification_channels` (`user_id`);--> statement-breakpoint
+CREATE INDEX `idx_notification_deliveries_channel_id` ON `notification_deliveries` (`channel_id`);--> statement-breakpoint
+CREATE INDEX `idx_notification_deliveries_status_next_attempt_at` ON `notification_deliveries` (`status`,`next_attempt_at`);
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE `service_check_results` (
+	`id` bigint unsigned AUTO_INCREMENT NOT NULL,
+	`service_id` bigint unsigned NOT NULL,
+	`url` varchar(255) NOT NULL,
+	`is_up` tinyint NOT NULL,
+	`status_code` int,
+	`latency_ms` int unsigned NOT NULL,
+	`error` text,
+	`checked_at` timestamp NOT NULL,
+	`created_at` timestamp DEFAULT (now()),
+	CONSTRAINT `service_check_results_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `services` ADD `check_url` varchar(255);--> statement-breakpoint
+ALTER TABLE `services` ADD `check_interval_seconds` int unsigned;--> statement-breakpoint
+ALTER TABLE `service_check_results` ADD CONSTRAINT `service_check_results_service_id_services_id_fk` FOREIGN KEY (`service_id`) REFERENCES `services`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `idx_service_check_results_service_id_checked_at` ON `service_check_results` (`service_id`,`checked_at`);
\ No newline at end of file
@@ -0,0 +1 @@
+CREATE INDEX `idx_service_logs_service_id_recorded_at` ON `service_logs` (`service_id`,`recorded_at`);
\ No newline at end of file
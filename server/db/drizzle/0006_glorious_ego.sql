@@ -0,0 +1 @@
+ALTER TABLE `services` ADD `res_status_api_key_hint` varchar(16);
\ No newline at end of file
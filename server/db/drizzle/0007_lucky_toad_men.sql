@@ -0,0 +1,32 @@
+CREATE TABLE `role_permissions` (
+	`role_id` bigint unsigned NOT NULL,
+	`permission` varchar(64) NOT NULL,
+	`created_at` timestamp DEFAULT (now()),
+	CONSTRAINT `role_permissions_role_id_permission_pk` PRIMARY KEY(`role_id`,`permission`)
+);
+--> statement-breakpoint
+CREATE TABLE `roles` (
+	`id` bigint unsigned AUTO_INCREMENT NOT NULL,
+	`name` varchar(64) NOT NULL,
+	`description` varchar(255) NOT NULL,
+	`created_at` timestamp DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()),
+	CONSTRAINT `roles_id` PRIMARY KEY(`id`),
+	CONSTRAINT `roles_name_unique` UNIQUE(`name`)
+);
+--> statement-breakpoint
+INSERT INTO `roles` (`id`, `name`, `description`) VALUES
+	(1, 'admin', 'Full access, including user management'),
+	(2, 'operator', 'Manage services, alerts and log syncing'),
+	(3, 'viewer', 'Read-only access to dashboards and logs');--> statement-breakpoint
+INSERT INTO `role_permissions` (`role_id`, `permission`) VALUES
+	(1, 'users.read'), (1, 'users.write'), (1, 'services.read'), (1, 'services.write'),
+	(1, 'services.sync'), (1, 'alerts.read'), (1, 'alerts.write'), (1, 'scheduler.manage'),
+	(2, 'users.read'), (2, 'services.read'), (2, 'services.write'), (2, 'services.sync'),
+	(2, 'alerts.read'), (2, 'alerts.write'), (2, 'scheduler.manage'),
+	(3, 'services.read'), (3, 'alerts.read');--> statement-breakpoint
+ALTER TABLE `users` ADD `role_id` bigint unsigned DEFAULT 3 NOT NULL;--> statement-breakpoint
+-- Existing users had full access before roles existed
+UPDATE `users` SET `role_id` = 1;--> statement-breakpoint
+ALTER TABLE `role_permissions` ADD CONSTRAINT `role_permissions_role_id_roles_id_fk` FOREIGN KEY (`role_id`) REFERENCES `roles`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `users` ADD CONSTRAINT `users_role_id_roles_id_fk` FOREIGN KEY (`role_id`) REFERENCES `roles`(`id`) ON DELETE no action ON UPDATE no action;
\ No newline at end of file
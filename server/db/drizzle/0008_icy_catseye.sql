@@ -0,0 +1,8 @@
+CREATE TABLE `rate_limits` (
+	`key` varchar(255) NOT NULL,
+	`count` int unsigned NOT NULL,
+	`reset_at` timestamp NOT NULL,
+	CONSTRAINT `rate_limits_key` PRIMARY KEY(`key`)
+);
+--> statement-breakpoint
+CREATE INDEX `idx_rate_limits_reset_at` ON `rate_limits` (`reset_at`);
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE `security_events` (
+	`id` bigint unsigned AUTO_INCREMENT NOT NULL,
+	`type` varchar(64) NOT NULL,
+	`blocked` tinyint NOT NULL DEFAULT 0,
+	`ip` varchar(64) NOT NULL,
+	`user_agent` varchar(512),
+	`method` varchar(10) NOT NULL,
+	`path` varchar(2048) NOT NULL,
+	`user_id` bigint unsigned,
+	`details` json,
+	`created_at` timestamp DEFAULT (now()),
+	CONSTRAINT `security_events_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `idx_security_events_type_created_at` ON `security_events` (`type`,`created_at`);--> statement-breakpoint
+CREATE INDEX `idx_security_events_ip` ON `security_events` (`ip`);--> statement-breakpoint
+INSERT INTO `role_permissions` (`role_id`, `permission`) VALUES (1, 'security.read');
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE `audit_logs` (
+	`id` bigint unsigned AUTO_INCREMENT NOT NULL,
+	`actor_id` bigint unsigned,
+	`action` varchar(64) NOT NULL,
+	`entity_type` varchar(32) NOT NULL,
+	`entity_id` bigint unsigned,
+	`changes` json,
+	`ip` varchar(64) NOT NULL,
+	`user_agent` varchar(512),
+	`created_at` timestamp DEFAULT (now()),
+	CONSTRAINT `audit_logs_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `audit_logs` ADD CONSTRAINT `audit_logs_actor_id_users_id_fk` FOREIGN KEY (`actor_id`) REFERENCES `users`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `idx_audit_logs_entity` ON `audit_logs` (`entity_type`,`entity_id`);--> statement-breakpoint
+CREATE INDEX `idx_audit_logs_actor_id` ON `audit_logs` (`actor_id`);--> statement-breakpoint
+CREATE INDEX `idx_audit_logs_created_at` ON `audit_logs` (`created_at`);--> statement-breakpoint
+INSERT INTO `role_permissions` (`role_id`, `permission`) VALUES (1, 'audit.read');
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `user_refresh_tokens` ADD `last_used_at` timestamp;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `user_refresh_tokens` ADD `revoked_at` timestamp;
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE `user_refresh_tokens` ADD `family_id` varchar(36) NOT NULL;--> statement-breakpoint
+ALTER TABLE `user_refresh_tokens` ADD `parent_id` varchar(36);--> statement-breakpoint
+-- Tokens issued before families existed each start their own family
+UPDATE `user_refresh_tokens` SET `family_id` = `id`;--> statement-breakpoint
+CREATE INDEX `idx_refresh_tokens_family_id` ON `user_refresh_tokens` (`family_id`);
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE `login_attempts` (
+	`id` bigint unsigned AUTO_INCREMENT NOT NULL,
+	`email` varchar(255) NOT NULL,
+	`ip` varchar(64) NOT NULL,
+	`success` tinyint NOT NULL,
+	`created_at` timestamp DEFAULT (now()),
+	CONSTRAINT `login_attempts_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `users` ADD `locked_until` timestamp;--> statement-breakpoint
+CREATE INDEX `idx_login_attempts_email_created_at` ON `login_attempts` (`email`,`created_at`);--> statement-breakpoint
+CREATE INDEX `idx_login_attempts_ip_created_at` ON `login_attempts` (`ip`,`created_at`);
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE `password_reset_tokens` (
+	`id` varchar(36) NOT NULL,
+	`user_id` bigint unsigned NOT NULL,
+	`token_hash` varchar(64) NOT NULL,
+	`expires_at` timestamp NOT NULL,
+	`used_at` timestamp,
+	`created_at` timestamp DEFAULT (now()),
+	CONSTRAINT `password_reset_tokens_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `password_reset_tokens` ADD CONSTRAINT `password_reset_tokens_user_id_users_id_fk` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `idx_password_reset_tokens_user_id` ON `password_reset_tokens` (`user_id`);
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE `app_settings` (
+	`key` varchar(64) NOT NULL,
+	`value` json NOT NULL,
+	`updated_at` timestamp DEFAULT (now()),
+	CONSTRAINT `app_settings_key` PRIMARY KEY(`key`)
+);
+--> statement-breakpoint
+CREATE TABLE `user_recovery_codes` (
+	`id` bigint unsigned AUTO_INCREMENT NOT NULL,
+	`user_id` bigint unsigned NOT NULL,
+	`code_hash` varchar(64) NOT NULL,
+	`used_at` timestamp,
+	`created_at` timestamp DEFAULT (now()),
+	CONSTRAINT `user_recovery_codes_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `users` ADD `totp_secret` text;--> statement-breakpoint
+ALTER TABLE `users` ADD `totp_enabled_at` timestamp;--> statement-breakpoint
+ALTER TABLE `users` ADD `totp_last_used_step` int unsigned;--> statement-breakpoint
+ALTER TABLE `user_recovery_codes` ADD CONSTRAINT `user_recovery_codes_user_id_users_id_fk` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `idx_user_recovery_codes_user_id` ON `user_recovery_codes` (`user_id`);--> statement-breakpoint
+INSERT INTO `role_permissions` (`role_id`, `permission`) VALUES (1, 'settings.manage');
\ No newline at end of file
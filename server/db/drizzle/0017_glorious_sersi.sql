@@ -0,0 +1,15 @@
+CREATE TABLE `personal_access_tokens` (
+	`id` varchar(36) NOT NULL,
+	`user_id` bigint unsigned NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`token_hash` varchar(64) NOT NULL,
+	`scopes` json NOT NULL,
+	`expires_at` timestamp,
+	`last_used_at` timestamp,
+	`revoked_at` timestamp,
+	`created_at` timestamp DEFAULT (now()),
+	CONSTRAINT `personal_access_tokens_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `personal_access_tokens` ADD CONSTRAINT `personal_access_tokens_user_id_users_id_fk` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `idx_personal_access_tokens_user_id` ON `personal_access_tokens` (`user_id`);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `services` ADD `ingest_token_hash` varchar(64);--> statement-breakpoint
+ALTER TABLE `services` ADD `ingest_token_hint` varchar(16);
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE `service_log_rollups` (
+	`id` bigint unsigned AUTO_INCREMENT NOT NULL,
+	`service_id` bigint unsigned NOT NULL,
+	`resolution` varchar(16) NOT NULL,
+	`bucket_start` timestamp NOT NULL,
+	`sample_count` int unsigned NOT NULL,
+	`data` json NOT NULL,
+	`last_recorded_at` timestamp NOT NULL,
+	`created_at` timestamp DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()),
+	CONSTRAINT `service_log_rollups_id` PRIMARY KEY(`id`),
+	CONSTRAINT `uq_service_log_rollups_service_resolution_bucket` UNIQUE(`service_id`,`resolution`,`bucket_start`)
+);
+--> statement-breakpoint
+ALTER TABLE `services` ADD `raw_retention_days` int unsigned;--> statement-breakpoint
+ALTER TABLE `services` ADD `hourly_retention_days` int unsigned;--> statement-breakpoint
+ALTER TABLE `services` ADD `daily_retention_days` int unsigned;--> statement-breakpoint
+ALTER TABLE `service_log_rollups` ADD CONSTRAINT `service_log_rollups_service_id_services_id_fk` FOREIGN KEY (`service_id`) REFERENCES `services`(`id`) ON DELETE no action ON UPDATE no action;
\ No newline at end of file
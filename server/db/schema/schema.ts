@@ -1,12 +1,62 @@
-import { json } from 'drizzle-orm/mysql-core';
+import { double, json } from 'drizzle-orm/mysql-core';
 import { index } from 'drizzle-orm/mysql-core';
-import { bigint, mysqlTable, text, timestamp, tinyint, varchar } from 'drizzle-orm/mysql-core';
+import {
+  bigint,
+  int,
+  mysqlTable,
+  primaryKey,
+  text,
+  timestamp,
+  tinyint,
+  uniqueIndex,
+  varchar,
+} from 'drizzle-orm/mysql-core';
+
+import type { AlertComparator } from '../../types/alert.type.js';
+import type { AuditAction, AuditChanges, AuditEntityType } from '../../types/audit.type.js';
+import type {
+  NotificationChannelConfig,
+  NotificationChannelType,
+  NotificationEvent,
+  NotificationMessage,
+} from '../../types/notification.type.js';
+import type { Permission } from '../../types/permission.type.js';
+import type { SecurityEventDetails, SecurityEventType } from '../../types/security.type.js';
+import type { LogRollupResolution, MetricRollupData } from '../../types/service.type.js';
+
+export const rolesTable = mysqlTable('roles', {
+  id: bigint('id', { mode: 'number', unsigned: true }).autoincrement().notNull().primaryKey(),
+  name: varchar('name', { length: 64 }).notNull().unique(),
+  description: varchar('description', { length: 255 }).notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+export const rolePermissionsTable = mysqlTable(
+  'role_permissions',
+  {
+    roleId: bigint('role_id', { mode: 'number', unsigned: true })
+      .notNull()
+      .references(() => rolesTable.id, { onDelete: 'cascade' }),
+    permission: varchar('permission', { length: 64 }).$type<Permission>().notNull(),
+    createdAt: timestamp('created_at').defaultNow(),
+  },
+  (table) => [primaryKey({ columns: [table.roleId, table.permission] })]
+);
 
 export const usersTable = mysqlTable('users', {
   id: bigint('id', { mode: 'number', unsigned: true }).autoincrement().notNull().primaryKey(),
   name: varchar('name', { length: 255 }).notNull(),
   email: varchar('email', { length: 255 }).notNull().unique(),
   password: varchar('password', { length: 255 }).notNull(),
+  roleId: bigint('role_id', { mode: 'number', unsigned: true })
+    .notNull()
+    .default(3) // viewer
+    .references(() => rolesTable.id),
+  lockedUntil: timestamp('locked_until'), // failures before this time no longer count
+  totpSecret: text('totp_secret'), // encrypted, see lib/encryption.ts
+  totpEnabledAt: timestamp('totp_enabled_at'), // null while enrollment is unconfirmed
+  totpLastUsedStep: int('totp_last_used_step', { unsigned: true }), // blocks code replay
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
   deletedAt: timestamp('deleted_at'),
@@ -19,7 +69,17 @@ export const servicesTable = mysqlTable('services', {
   type: tinyint('type').notNull().default(1), // 1: server, 2: vps, 3: shared hosting
   status: tinyint('status').notNull().default(1), // 1: active, 0: inactive
   resStatusApiUrl: varchar('res_status_api_url', { length: 255 }).notNull(),
-  resStatusApiKey: text('res_status_api_key').notNull(),
+  resStatusApiKey: text('res_status_api_key').notNull(), // encrypted, see lib/encryption.ts
+  resStatusApiKeyHint: varchar('res_status_api_key_hint', { length: 16 }),
+  syncIntervalSeconds: int('sync_interval_seconds', { unsigned: true }), // null: env default
+  lastSyncedAt: timestamp('last_synced_at'),
+  checkUrl: varchar('check_url', { length: 255 }), // null: probe res_status_api_url
+  checkIntervalSeconds: int('check_interval_seconds', { unsigned: true }), // null: env default
+  ingestTokenHash: varchar('ingest_token_hash', { length: 64 }), // SHA-256, null: push disabled
+  ingestTokenHint: varchar('ingest_token_hint', { length: 16 }),
+  rawRetentionDays: int('raw_retention_days', { unsigned: true }), // null: env default
+  hourlyRetentionDays: int('hourly_retention_days', { unsigned: true }), // null: env default
+  dailyRetentionDays: int('daily_retention_days', { unsigned: true }), // 0: forever, null: default
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
   deletedAt: timestamp('deleted_at'),
@@ -39,7 +99,35 @@ export const serviceLogsTable = mysqlTable(
     updatedAt: timestamp('updated_at').defaultNow(),
     deletedAt: timestamp('deleted_at'),
   },
-  (table) => [index('idx_service_logs_service_id').on(table.serviceId)]
+  (table) => [
+    index('idx_service_logs_service_id').on(table.serviceId),
+    index('idx_service_logs_service_id_recorded_at').on(table.serviceId, table.recordedAt),
+  ]
+);
+
+// service_logs past raw retention, aggregated into hourly and later daily buckets
+export const serviceLogRollupsTable = mysqlTable(
+  'service_log_rollups',
+  {
+    id: bigint('id', { mode: 'number', unsigned: true }).autoincrement().notNull().primaryKey(),
+    serviceId: bigint('service_id', { mode: 'number', unsigned: true })
+      .references(() => servicesTable.id)
+      .notNull(),
+    resolution: varchar('resolution', { length: 16 }).$type<LogRollupResolution>().notNull(),
+    bucketStart: timestamp('bucket_start').notNull(),
+    sampleCount: int('sample_count', { unsigned: true }).notNull(), // raw logs in the bucket
+    data: json('data').$type<MetricRollupData>().notNull(),
+    lastRecordedAt: timestamp('last_recorded_at').notNull(), // decides `last` when merging
+    createdAt: timestamp('created_at').defaultNow(),
+    updatedAt: timestamp('updated_at').defaultNow(),
+  },
+  (table) => [
+    uniqueIndex('uq_service_log_rollups_service_resolution_bucket').on(
+      table.serviceId,
+      table.resolution,
+      table.bucketStart
+    ),
+  ]
 );
 
 export const userRefreshTokenTable = mysqlTable(
@@ -49,11 +137,253 @@ export const userRefreshTokenTable = mysqlTable(
     userId: bigint('user_id', { mode: 'number', unsigned: true })
       .notNull()
       .references(() => usersTable.id, { onDelete: 'cascade' }),
-    token: varchar('token', { length: 255 }).notNull(),
+    token: varchar('token', { length: 255 }).notNull(), // SHA-256 of the verifier, bcrypt on legacy rows
+    familyId: varchar('family_id', { length: 36 }).notNull(), // id of the login's first token
+    parentId: varchar('parent_id', { length: 36 }), // token this one was rotated from
     isRevoked: tinyint('is_revoked').default(0), // 0 = false, 1 = true
+    revokedAt: timestamp('revoked_at'),
     deviceInfo: varchar('device_info', { length: 255 }),
     expiresAt: timestamp('expires_at').notNull(),
+    lastUsedAt: timestamp('last_used_at'),
+    createdAt: timestamp('created_at').defaultNow(), // session start, kept across rotations
+  },
+  (table) => [
+    index('idx_refresh_tokens_user_id').on(table.userId),
+    index('idx_refresh_tokens_family_id').on(table.familyId),
+  ]
+);
+
+export const alertRulesTable = mysqlTable(
+  'alert_rules',
+  {
+    id: bigint('id', { mode: 'number', unsigned: true }).autoincrement().notNull().primaryKey(),
+    name: varchar('name', { length: 255 }).notNull(),
+    // null: applies to every service of serviceType
+    serviceId: bigint('service_id', { mode: 'number', unsigned: true }).references(
+      () => servicesTable.id
+    ),
+    serviceType: tinyint('service_type'), // 1: server, 2: vps, 3: shared hosting
+    metricPath: varchar('metric_path', { length: 255 }).notNull(), // dotted path into log data
+    comparator: varchar('comparator', { length: 8 }).$type<AlertComparator>().notNull(),
+    threshold: double('threshold').notNull(),
+    durationSeconds: int('duration_seconds', { unsigned: true }).notNull().default(0),
+    status: tinyint('status').notNull().default(1), // 1: active, 0: inactive
+    createdAt: timestamp('created_at').defaultNow(),
+    updatedAt: timestamp('updated_at').defaultNow(),
+    deletedAt: timestamp('deleted_at'),
+  },
+  (table) => [
+    index('idx_alert_rules_service_id').on(table.serviceId),
+    index('idx_alert_rules_service_type').on(table.serviceType),
+  ]
+);
+
+export const alertsTable = mysqlTable(
+  'alerts',
+  {
+    id: bigint('id', { mode: 'number', unsigned: true }).autoincrement().notNull().primaryKey(),
+    ruleId: bigint('rule_id', { mode: 'number', unsigned: true })
+      .references(() => alertRulesTable.id)
+      .notNull(),
+    serviceId: bigint('service_id', { mode: 'number', unsigned: true })
+      .references(() => servicesTable.id)
+      .notNull(),
+    status: tinyint('status').notNull().default(1), // 1: firing, 0: resolved
+    value: double('value').notNull(), // last observed metric value
+    firedAt: timestamp('fired_at').notNull(),
+    resolvedAt: timestamp('resolved_at'),
+    createdAt: timestamp('created_at').defaultNow(),
+    updatedAt: timestamp('updated_at').defaultNow(),
+  },
+  (table) => [
+    index('idx_alerts_rule_id_service_id').on(table.ruleId, table.serviceId),
+    index('idx_alerts_service_id').on(table.serviceId),
+  ]
+);
+
+export const notificationChannelsTable = mysqlTable(
+  'notification_channels',
+  {
+    id: bigint('id', { mode: 'number', unsigned: true }).autoincrement().notNull().primaryKey(),
+    userId: bigint('user_id', { mode: 'number', unsigned: true })
+      .notNull()
+      .references(() => usersTable.id, { onDelete: 'cascade' }),
+    name: varchar('name', { length: 255 }).notNull(),
+    type: varchar('type', { length: 16 }).$type<NotificationChannelType>().notNull(),
+    config: json('config').$type<NotificationChannelConfig>().notNull(),
+    subjectTemplate: varchar('subject_template', { length: 255 }), // null: default template
+    bodyTemplate: text('body_template'), // null: default template
+    status: tinyint('status').notNull().default(1), // 1: active, 0: inactive
+    createdAt: timestamp('created_at').defaultNow(),
+    updatedAt: timestamp('updated_at').defaultNow(),
+    deletedAt: timestamp('deleted_at'),
+  },
+  (table) => [index('idx_notification_channels_user_id').on(table.userId)]
+);
+
+export const notificationDeliveriesTable = mysqlTable(
+  'notification_deliveries',
+  {
+    id: bigint('id', { mode: 'number', unsigned: true }).autoincrement().notNull().primaryKey(),
+    channelId: bigint('channel_id', { mode: 'number', unsigned: true })
+      .notNull()
+      .references(() => notificationChannelsTable.id, { onDelete: 'cascade' }),
+    alertId: bigint('alert_id', { mode: 'number', unsigned: true }).references(
+      () => alertsTable.id
+    ),
+    event: varchar('event', { length: 32 }).$type<NotificationEvent>().notNull(),
+    message: json('message').$type<NotificationMessage>().notNull(),
+    status: tinyint('status').notNull().default(0), // 0: pending, 1: sent, 2: failed
+    attempts: int('attempts', { unsigned: true }).notNull().default(0),
+    lastError: text('last_error'),
+    nextAttemptAt: timestamp('next_attempt_at'),
+    sentAt: timestamp('sent_at'),
+    createdAt: timestamp('created_at').defaultNow(),
+    updatedAt: timestamp('updated_at').defaultNow(),
+  },
+  (table) => [
+    index('idx_notification_deliveries_channel_id').on(table.channelId),
+    index('idx_notification_deliveries_status_next_attempt_at').on(
+      table.status,
+      table.nextAttemptAt
+    ),
+  ]
+);
+
+export const serviceCheckResultsTable = mysqlTable(
+  'service_check_results',
+  {
+    id: bigint('id', { mode: 'number', unsigned: true }).autoincrement().notNull().primaryKey(),
+    serviceId: bigint('service_id', { mode: 'number', unsigned: true })
+      .references(() => servicesTable.id)
+      .notNull(),
+    url: varchar('url', { length: 255 }).notNull(),
+    isUp: tinyint('is_up').notNull(), // 0 = down, 1 = up
+    statusCode: int('status_code'), // null when the request did not complete
+    latencyMs: int('latency_ms', { unsigned: true }).notNull(),
+    error: text('error'),
+    checkedAt: timestamp('checked_at').notNull(),
+    createdAt: timestamp('created_at').defaultNow(),
+  },
+  (table) => [
+    index('idx_service_check_results_service_id_checked_at').on(table.serviceId, table.checkedAt),
+  ]
+);
+
+export const rateLimitsTable = mysqlTable(
+  'rate_limits',
+  {
+    key: varchar('key', { length: 255 }).notNull().primaryKey(),
+    count: int('count', { unsigned: true }).notNull(),
+    resetAt: timestamp('reset_at').notNull(),
+  },
+  (table) => [index('idx_rate_limits_reset_at').on(table.resetAt)]
+);
+
+export const securityEventsTable = mysqlTable(
+  'security_events',
+  {
+    id: bigint('id', { mode: 'number', unsigned: true }).autoincrement().notNull().primaryKey(),
+    type: varchar('type', { length: 64 }).$type<SecurityEventType>().notNull(),
+    blocked: tinyint('blocked').notNull().default(0), // 0: logged only, 1: blocked
+    ip: varchar('ip', { length: 64 }).notNull(),
+    userAgent: varchar('user_agent', { length: 512 }),
+    method: varchar('method', { length: 10 }).notNull(),
+    path: varchar('path', { length: 2048 }).notNull(),
+    userId: bigint('user_id', { mode: 'number', unsigned: true }),
+    details: json('details').$type<SecurityEventDetails>(),
+    createdAt: timestamp('created_at').defaultNow(),
+  },
+  (table) => [
+    index('idx_security_events_type_created_at').on(table.type, table.createdAt),
+    index('idx_security_events_ip').on(table.ip),
+  ]
+);
+
+export const auditLogsTable = mysqlTable(
+  'audit_logs',
+  {
+    id: bigint('id', { mode: 'number', unsigned: true }).autoincrement().notNull().primaryKey(),
+    actorId: bigint('actor_id', { mode: 'number', unsigned: true }).references(() => usersTable.id),
+    action: varchar('action', { length: 64 }).$type<AuditAction>().notNull(),
+    entityType: varchar('entity_type', { length: 32 }).$type<AuditEntityType>().notNull(),
+    entityId: bigint('entity_id', { mode: 'number', unsigned: true }),
+    changes: json('changes').$type<AuditChanges>(),
+    ip: varchar('ip', { length: 64 }).notNull(),
+    userAgent: varchar('user_agent', { length: 512 }),
+    createdAt: timestamp('created_at').defaultNow(),
+  },
+  (table) => [
+    index('idx_audit_logs_entity').on(table.entityType, table.entityId),
+    index('idx_audit_logs_actor_id').on(table.actorId),
+    index('idx_audit_logs_created_at').on(table.createdAt),
+  ]
+);
+
+export const loginAttemptsTable = mysqlTable(
+  'login_attempts',
+  {
+    id: bigint('id', { mode: 'number', unsigned: true }).autoincrement().notNull().primaryKey(),
+    email: varchar('email', { length: 255 }).notNull(),
+    ip: varchar('ip', { length: 64 }).notNull(),
+    success: tinyint('success').notNull(), // 0: failed, 1: succeeded
+    createdAt: timestamp('created_at').defaultNow(),
+  },
+  (table) => [
+    index('idx_login_attempts_email_created_at').on(table.email, table.createdAt),
+    index('idx_login_attempts_ip_created_at').on(table.ip, table.createdAt),
+  ]
+);
+
+export const passwordResetTokensTable = mysqlTable(
+  'password_reset_tokens',
+  {
+    id: varchar('id', { length: 36 }).notNull().primaryKey(), // selector part of the token
+    userId: bigint('user_id', { mode: 'number', unsigned: true })
+      .notNull()
+      .references(() => usersTable.id, { onDelete: 'cascade' }),
+    tokenHash: varchar('token_hash', { length: 64 }).notNull(), // SHA-256 of the verifier
+    expiresAt: timestamp('expires_at').notNull(),
+    usedAt: timestamp('used_at'),
+    createdAt: timestamp('created_at').defaultNow(),
+  },
+  (table) => [index('idx_password_reset_tokens_user_id').on(table.userId)]
+);
+
+export const userRecoveryCodesTable = mysqlTable(
+  'user_recovery_codes',
+  {
+    id: bigint('id', { mode: 'number', unsigned: true }).autoincrement().notNull().primaryKey(),
+    userId: bigint('user_id', { mode: 'number', unsigned: true })
+      .notNull()
+      .references(() => usersTable.id, { onDelete: 'cascade' }),
+    codeHash: varchar('code_hash', { length: 64 }).notNull(), // SHA-256 of the code
+    usedAt: timestamp('used_at'),
+    createdAt: timestamp('created_at').defaultNow(),
+  },
+  (table) => [index('idx_user_recovery_codes_user_id').on(table.userId)]
+);
+
+export const appSettingsTable = mysqlTable('app_settings', {
+  key: varchar('key', { length: 64 }).notNull().primaryKey(),
+  value: json('value').notNull(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+export const personalAccessTokensTable = mysqlTable(
+  'personal_access_tokens',
+  {
+    id: varchar('id', { length: 36 }).notNull().primaryKey(), // selector part of the token
+    userId: bigint('user_id', { mode: 'number', unsigned: true })
+      .notNull()
+      .references(() => usersTable.id, { onDelete: 'cascade' }),
+    name: varchar('name', { length: 255 }).notNull(),
+    tokenHash: varchar('token_hash', { length: 64 }).notNull(), // SHA-256 of the verifier
+    scopes: json('scopes').$type<Permission[]>().notNull(),
+    expiresAt: timestamp('expires_at'), // null: never expires
+    lastUsedAt: timestamp('last_used_at'),
+    revokedAt: timestamp('revoked_at'),
     createdAt: timestamp('created_at').defaultNow(),
   },
-  (table) => [index('idx_refresh_tokens_user_id').on(table.userId)]
+  (table) => [index('idx_personal_access_tokens_user_id').on(table.userId)]
 );
@@ -0,0 +1,58 @@
+/**
+ * Encrypt plaintext service API keys and re-encrypt keys written with an older key version.
+ * Safe to run repeatedly: rows already on the current key version are skipped.
+ *
+ *   bun run db:encrypt-keys
+ */
+import { eq } from 'drizzle-orm';
+
+import {
+  decryptSecret,
+  encryptSecret,
+  isEncrypted,
+  maskSecret,
+  needsReencryption,
+} from '../../lib/encryption.js';
+import { logger } from '../../lib/logger.js';
+import { connection, db } from '../database.js';
+import { servicesTable } from '../schema/schema.js';
+
+async function main() {
+  const services = await db
+    .select({ id: servicesTable.id, resStatusApiKey: servicesTable.resStatusApiKey })
+    .from(servicesTable);
+
+  let updated = 0;
+
+  for (const service of services) {
+    if (!needsReencryption(service.resStatusApiKey)) {
+      continue;
+    }
+
+    const plaintext = isEncrypted(service.resStatusApiKey)
+      ? decryptSecret(service.resStatusApiKey)
+      : service.resStatusApiKey;
+
+    await db
+      .update(servicesTable)
+      .set({
+        resStatusApiKey: encryptSecret(plaintext),
+        resStatusApiKeyHint: maskSecret(plaintext),
+      })
+      .where(eq(servicesTable.id, service.id));
+
+    updated++;
+  }
+
+  logger.info(`Encrypted API keys for ${updated} of ${services.length} services`);
+}
+
+main()
+  .catch((error) => {
+    logger.error(`Error encrypting service API keys: ${error}`);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await connection.end();
+    process.exit();
+  });
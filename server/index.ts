@@ -1,9 +1,20 @@
 import app from './app';
+import { startLogRetentionJob } from './jobs/logRetentionJob';
+import { startLogSyncScheduler } from './jobs/logSyncScheduler';
+import { startNotificationRetryJob } from './jobs/notificationRetryJob';
+import { startRefreshTokenPurgeJob } from './jobs/refreshTokenPurgeJob';
+import { startUptimeCheckScheduler } from './jobs/uptimeCheckScheduler';
 
 const port = process.env.PORT || 3000;
 
 console.log(`Server is running on port ${port}`);
 
+startLogSyncScheduler();
+startNotificationRetryJob();
+startUptimeCheckScheduler();
+startRefreshTokenPurgeJob();
+startLogRetentionJob();
+
 export default {
   port,
   fetch: app.fetch,
@@ -0,0 +1,61 @@
+import { db } from '../db/database.js';
+import { servicesTable } from '../db/schema/schema.js';
+import env from '../lib/env.js';
+import { logger } from '../lib/logger.js';
+import { applyLogRetention } from '../lib/logRetention.js';
+
+const TICK_MS = 60 * 60 * 1000;
+
+const dryRun = env.RETENTION_DRY_RUN === 'true';
+
+let timer: ReturnType<typeof setInterval> | null = null;
+let running = false;
+
+async function tick() {
+  if (running) {
+    return;
+  }
+
+  running = true;
+  try {
+    // Deleted services are included, their logs are subject to retention too
+    const services = await db.select().from(servicesTable);
+
+    for (const service of services) {
+      try {
+        const report = await applyLogRetention(service, { dryRun });
+        const { rawLogsRolledUp, hourlyRollupsRolledUp, dailyRollupsDeleted } = report;
+
+        if (dryRun) {
+          logger.info({ report }, `Log retention dry run for service ${service.id}`);
+        } else if (rawLogsRolledUp + hourlyRollupsRolledUp + dailyRollupsDeleted > 0) {
+          logger.info(
+            `Log retention for service ${service.id}: rolled up ${rawLogsRolledUp} raw logs, ` +
+              `${hourlyRollupsRolledUp} hourly rollups; deleted ${dailyRollupsDeleted} daily`
+          );
+        }
+      } catch (error) {
+        logger.error(`Error applying log retention for service ${service.id}: ${error}`);
+      }
+    }
+  } catch (error) {
+    logger.error(`Error running log retention job: ${error}`);
+  } finally {
+    running = false;
+  }
+}
+
+export function startLogRetentionJob() {
+  if (timer || env.RETENTION_ENABLED !== 'true') {
+    return;
+  }
+
+  timer = setInterval(tick, TICK_MS);
+}
+
+export function stopLogRetentionJob() {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
@@ -0,0 +1,102 @@
+import { and, eq, isNull } from 'drizzle-orm';
+
+import { db } from '../db/database.js';
+import { servicesTable } from '../db/schema/schema.js';
+import env from '../lib/env.js';
+import { logger } from '../lib/logger.js';
+import { isServiceSyncing, syncServiceLogs } from '../lib/serviceLogSync.js';
+import { SERVICE_STATUS } from '../types/service.type.js';
+
+// How often the scheduler checks which services are due for a sync
+const TICK_MS = 30 * 1000;
+
+const defaultIntervalSeconds = Number(env.LOG_SYNC_INTERVAL_SECONDS);
+
+let timer: ReturnType<typeof setInterval> | null = null;
+let paused = env.LOG_SYNC_ENABLED !== 'true';
+let lastTickAt: Date | null = null;
+
+// Last attempt per service, so failing services wait a full interval before retrying
+const lastAttemptAt = new Map<number, number>();
+
+async function tick() {
+  if (paused) {
+    return;
+  }
+
+  lastTickAt = new Date();
+
+  try {
+    const services = await db
+      .select()
+      .from(servicesTable)
+      .where(and(eq(servicesTable.status, SERVICE_STATUS.ACTIVE), isNull(servicesTable.deletedAt)));
+
+    const now = Date.now();
+
+    for (const service of services) {
+      const intervalMs = (service.syncIntervalSeconds ?? defaultIntervalSeconds) * 1000;
+      const lastRun = Math.max(
+        service.lastSyncedAt?.getTime() ?? 0,
+        lastAttemptAt.get(service.id) ?? 0
+      );
+
+      if (now - lastRun < intervalMs || isServiceSyncing(service.id)) {
+        continue;
+      }
+
+      lastAttemptAt.set(service.id, now);
+
+      syncServiceLogs(service)
+        .then((result) => {
+          if (result.success) {
+            logger.debug(`Synced ${result.data.length} logs for service ${service.id}`);
+          } else if (result.status !== 400) {
+            logger.warn(`Scheduled log sync failed for service ${service.id}: ${result.message}`);
+          }
+        })
+        .catch((error) => {
+          logger.error(`Error in scheduled log sync for service ${service.id}: ${error}`);
+        });
+    }
+  } catch (error) {
+    logger.error(`Error running log sync scheduler: ${error}`);
+  }
+}
+
+export function startLogSyncScheduler() {
+  if (timer) {
+    return;
+  }
+
+  timer = setInterval(tick, TICK_MS);
+  logger.info(`Log sync scheduler started${paused ? ' (paused)' : ''}`);
+  void tick();
+}
+
+export function stopLogSyncScheduler() {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
+
+export function pauseLogSyncScheduler() {
+  paused = true;
+  logger.info('Log sync scheduler paused');
+}
+
+export function resumeLogSyncScheduler() {
+  paused = false;
+  logger.info('Log sync scheduler resumed');
+  void tick();
+}
+
+export function getLogSyncSchedulerStatus() {
+  return {
+    running: timer !== null,
+    paused,
+    defaultIntervalSeconds,
+    lastTickAt: lastTickAt?.toISOString() ?? null,
+  };
+}
@@ -0,0 +1,40 @@
+import { logger } from '../lib/logger.js';
+import { retryPendingDeliveries } from '../lib/notifications/index.js';
+
+const TICK_MS = 60 * 1000;
+
+let timer: ReturnType<typeof setInterval> | null = null;
+let running = false;
+
+async function tick() {
+  if (running) {
+    return;
+  }
+
+  running = true;
+  try {
+    const retried = await retryPendingDeliveries();
+    if (retried > 0) {
+      logger.info(`Retried ${retried} pending notification deliveries`);
+    }
+  } catch (error) {
+    logger.error(`Error retrying notification deliveries: ${error}`);
+  } finally {
+    running = false;
+  }
+}
+
+export function startNotificationRetryJob() {
+  if (timer) {
+    return;
+  }
+
+  timer = setInterval(tick, TICK_MS);
+}
+
+export function stopNotificationRetryJob() {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
@@ -0,0 +1,40 @@
+import { logger } from '../lib/logger.js';
+import { purgeRefreshTokens } from '../lib/refreshTokens.js';
+
+const TICK_MS = 60 * 60 * 1000;
+
+let timer: ReturnType<typeof setInterval> | null = null;
+let running = false;
+
+async function tick() {
+  if (running) {
+    return;
+  }
+
+  running = true;
+  try {
+    const purged = await purgeRefreshTokens();
+    if (purged > 0) {
+      logger.info(`Purged ${purged} expired or revoked refresh tokens`);
+    }
+  } catch (error) {
+    logger.error(`Error purging refresh tokens: ${error}`);
+  } finally {
+    running = false;
+  }
+}
+
+export function startRefreshTokenPurgeJob() {
+  if (timer) {
+    return;
+  }
+
+  timer = setInterval(tick, TICK_MS);
+}
+
+export function stopRefreshTokenPurgeJob() {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
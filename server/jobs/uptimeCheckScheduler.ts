@@ -0,0 +1,69 @@
+import { and, eq, isNull } from 'drizzle-orm';
+
+import { db } from '../db/database.js';
+import { servicesTable } from '../db/schema/schema.js';
+import env from '../lib/env.js';
+import { logger } from '../lib/logger.js';
+import { isServiceChecking, runUptimeCheck } from '../lib/uptimeCheck.js';
+import { SERVICE_STATUS } from '../types/service.type.js';
+
+// How often the scheduler checks which services are due for a probe
+const TICK_MS = 15 * 1000;
+
+const defaultIntervalSeconds = Number(env.UPTIME_CHECK_INTERVAL_SECONDS);
+
+let timer: ReturnType<typeof setInterval> | null = null;
+
+const lastCheckAt = new Map<number, number>();
+
+async function tick() {
+  try {
+    const services = await db
+      .select()
+      .from(servicesTable)
+      .where(and(eq(servicesTable.status, SERVICE_STATUS.ACTIVE), isNull(servicesTable.deletedAt)));
+
+    const now = Date.now();
+
+    for (const service of services) {
+      const intervalMs = (service.checkIntervalSeconds ?? defaultIntervalSeconds) * 1000;
+
+      if (now - (lastCheckAt.get(service.id) ?? 0) < intervalMs || isServiceChecking(service.id)) {
+        continue;
+      }
+
+      lastCheckAt.set(service.id, now);
+
+      runUptimeCheck(service)
+        .then((result) => {
+          if (!result.isUp) {
+            logger.warn(
+              `Uptime check failed for service ${service.id}: ${result.statusCode ?? result.error}`
+            );
+          }
+        })
+        .catch((error) => {
+          logger.error(`Error running uptime check for service ${service.id}: ${error}`);
+        });
+    }
+  } catch (error) {
+    logger.error(`Error running uptime check scheduler: ${error}`);
+  }
+}
+
+export function startUptimeCheckScheduler() {
+  if (timer || env.UPTIME_CHECK_ENABLED !== 'true') {
+    return;
+  }
+
+  timer = setInterval(tick, TICK_MS);
+  logger.info('Uptime check scheduler started');
+  void tick();
+}
+
+export function stopUptimeCheckScheduler() {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
@@ -0,0 +1,213 @@
+import { and, desc, eq, gte, isNull, lt, or } from 'drizzle-orm';
+
+import { db } from '../db/database.js';
+import { alertRulesTable, alertsTable, serviceLogsTable } from '../db/schema/schema.js';
+import {
+  ALERT_COMPARATOR_LABELS,
+  ALERT_RULE_STATUS,
+  ALERT_STATUS,
+  AlertComparator,
+} from '../types/alert.type.js';
+import { Service } from './collectors/index.js';
+import { logger } from './logger.js';
+import { notifyAllChannels } from './notifications/index.js';
+
+type AlertRule = typeof alertRulesTable.$inferSelect;
+type ServiceLog = Pick<typeof serviceLogsTable.$inferSelect, 'data' | 'recordedAt'>;
+
+/**
+ * Read a numeric value from a log payload using a dotted path (e.g. `disk.used_mb`).
+ * Returns null when the path is missing or not numeric.
+ */
+export function getMetricValue(data: unknown, path: string): number | null {
+  let current: unknown = data;
+
+  for (const key of path.split('.')) {
+    if (current === null || typeof current !== 'object') {
+      return null;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+
+  const value = typeof current === 'string' ? Number(current) : current;
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+export function compareMetric(value: number, comparator: AlertComparator, threshold: number) {
+  switch (comparator) {
+    case 'gt':
+      return value > threshold;
+    case 'gte':
+      return value >= threshold;
+    case 'lt':
+      return value < threshold;
+    case 'lte':
+      return value <= threshold;
+    case 'eq':
+      return value === threshold;
+    case 'neq':
+      return value !== threshold;
+  }
+}
+
+function isBreaching(rule: AlertRule, log: ServiceLog) {
+  const value = getMetricValue(log.data, rule.metricPath);
+  return value !== null && compareMetric(value, rule.comparator, rule.threshold);
+}
+
+/**
+ * A rule breaches when every log in the last `durationSeconds` breaches and, for rules with a
+ * duration, the log right before that window breaches too, so the condition held the whole time.
+ */
+async function evaluateRule(rule: AlertRule, serviceId: number, latest: ServiceLog) {
+  if (rule.durationSeconds === 0) {
+    return isBreaching(rule, latest);
+  }
+
+  const windowStart = new Date(latest.recordedAt.getTime() - rule.durationSeconds * 1000);
+  const logCondition = and(
+    eq(serviceLogsTable.serviceId, serviceId),
+    isNull(serviceLogsTable.deletedAt)
+  );
+
+  const windowLogs = await db
+    .select({ data: serviceLogsTable.data, recordedAt: serviceLogsTable.recordedAt })
+    .from(serviceLogsTable)
+    .where(and(logCondition, gte(serviceLogsTable.recordedAt, windowStart)));
+
+  if (!windowLogs.every((log) => isBreaching(rule, log))) {
+    return false;
+  }
+
+  const previous = await db
+    .select({ data: serviceLogsTable.data, recordedAt: serviceLogsTable.recordedAt })
+    .from(serviceLogsTable)
+    .where(and(logCondition, lt(serviceLogsTable.recordedAt, windowStart)))
+    .orderBy(desc(serviceLogsTable.recordedAt))
+    .limit(1);
+
+  return previous.length > 0 && isBreaching(rule, previous[0]);
+}
+
+/**
+ * Notify every channel about an alert change without holding up rule evaluation.
+ */
+function notifyAlert(
+  event: 'alert.firing' | 'alert.resolved',
+  alertId: number,
+  rule: AlertRule,
+  service: Service
+) {
+  db.select()
+    .from(alertsTable)
+    .where(eq(alertsTable.id, alertId))
+    .then(([alert]) =>
+      notifyAllChannels(
+        event,
+        {
+          alert_id: alert.id,
+          rule_name: rule.name,
+          service_id: service.id,
+          service_name: service.name,
+          metric_path: rule.metricPath,
+          comparator: ALERT_COMPARATOR_LABELS[rule.comparator],
+          threshold: rule.threshold,
+          value: alert.value,
+          fired_at: alert.firedAt.toISOString(),
+          resolved_at: alert.resolvedAt?.toISOString() ?? null,
+        },
+        alert.id
+      )
+    )
+    .catch((error) => {
+      logger.error(`Error sending notifications for alert ${alertId}: ${error}`);
+    });
+}
+
+/**
+ * Evaluate every active rule that applies to the service against its latest log,
+ * opening a firing alert on breach and resolving the open alert once it recovers.
+ */
+export async function evaluateAlertRules(service: Service) {
+  const latestLogs = await db
+    .select({ data: serviceLogsTable.data, recordedAt: serviceLogsTable.recordedAt })
+    .from(serviceLogsTable)
+    .where(and(eq(serviceLogsTable.serviceId, service.id), isNull(serviceLogsTable.deletedAt)))
+    .orderBy(desc(serviceLogsTable.recordedAt))
+    .limit(1);
+
+  if (latestLogs.length === 0) {
+    return;
+  }
+
+  const latest = latestLogs[0];
+
+  const rules = await db
+    .select()
+    .from(alertRulesTable)
+    .where(
+      and(
+        eq(alertRulesTable.status, ALERT_RULE_STATUS.ACTIVE),
+        isNull(alertRulesTable.deletedAt),
+        or(
+          eq(alertRulesTable.serviceId, service.id),
+          and(isNull(alertRulesTable.serviceId), eq(alertRulesTable.serviceType, service.type))
+        )
+      )
+    );
+
+  for (const rule of rules) {
+    try {
+      const breaching = await evaluateRule(rule, service.id, latest);
+      const value = getMetricValue(latest.data, rule.metricPath);
+
+      const openAlerts = await db
+        .select()
+        .from(alertsTable)
+        .where(
+          and(
+            eq(alertsTable.ruleId, rule.id),
+            eq(alertsTable.serviceId, service.id),
+            eq(alertsTable.status, ALERT_STATUS.FIRING)
+          )
+        )
+        .limit(1);
+
+      if (breaching && openAlerts.length === 0) {
+        const [{ id: alertId }] = await db
+          .insert(alertsTable)
+          .values({
+            ruleId: rule.id,
+            serviceId: service.id,
+            status: ALERT_STATUS.FIRING,
+            value: value ?? 0,
+            firedAt: latest.recordedAt,
+          })
+          .$returningId();
+        logger.warn(`Alert rule ${rule.id} (${rule.name}) firing for service ${service.id}`);
+
+        notifyAlert('alert.firing', alertId, rule, service);
+      } else if (breaching && value !== null) {
+        await db
+          .update(alertsTable)
+          .set({ value, updatedAt: new Date() })
+          .where(eq(alertsTable.id, openAlerts[0].id));
+      } else if (!breaching && openAlerts.length > 0) {
+        await db
+          .update(alertsTable)
+          .set({
+            status: ALERT_STATUS.RESOLVED,
+            value: value ?? openAlerts[0].value,
+            resolvedAt: latest.recordedAt,
+            updatedAt: new Date(),
+          })
+          .where(eq(alertsTable.id, openAlerts[0].id));
+        logger.info(`Alert rule ${rule.id} (${rule.name}) resolved for service ${service.id}`);
+
+        notifyAlert('alert.resolved', openAlerts[0].id, rule, service);
+      }
+    } catch (error) {
+      logger.error(`Error evaluating alert rule ${rule.id} for service ${service.id}: ${error}`);
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import { Context } from 'hono';
+
+import { db } from '../db/database.js';
+import { auditLogsTable } from '../db/schema/schema.js';
+import { AuthPayload } from '../middleware/jwt.js';
+import { AuditAction, AuditChanges, AuditEntityType } from '../types/audit.type.js';
+import { logger } from './logger.js';
+import { getClientIP } from './security.js';
+
+// Fields whose values never reach the audit log; changes to them are still recorded
+const REDACTED_FIELDS = ['password', 'resStatusApiKey', 'token', 'totpSecret', 'ingestTokenHash'];
+const REDACTED = '[REDACTED]';
+
+// Bookkeeping fields that change on every write
+const IGNORED_FIELDS = ['createdAt', 'updatedAt'];
+
+type AuditRecord = Record<string, unknown>;
+
+type AuditEntry = {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: number | null;
+  before?: AuditRecord | null;
+  after?: AuditRecord | null;
+  // Defaults to the authenticated user; set it for unauthenticated requests like login
+  actorId?: number | null;
+};
+
+const serialize = (value: unknown) =>
+  value instanceof Date ? value.toISOString() : (value ?? null);
+
+/**
+ * Compare two versions of a row and return the fields that differ, with secrets redacted.
+ * Pass null as `before` for created rows and as `after` for hard-deleted ones.
+ */
+export function diffChanges(before: AuditRecord | null, after: AuditRecord | null): AuditChanges {
+  const changes: AuditChanges = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.includes(field)) {
+      continue;
+    }
+
+    const beforeValue = serialize(before?.[field]);
+    const afterValue = serialize(after?.[field]);
+
+    if (JSON.stringify(beforeValue) === JSON.stringify(afterValue)) {
+      continue;
+    }
+
+    changes[field] = REDACTED_FIELDS.includes(field)
+      ? {
+          before: beforeValue === null ? null : REDACTED,
+          after: afterValue === null ? null : REDACTED,
+        }
+      : { before: beforeValue, after: afterValue };
+  }
+
+  return changes;
+}
+
+/**
+ * Write an audit log entry for the current request. Failures are logged, never thrown,
+ * so auditing can't break the change it describes.
+ */
+export async function recordAuditLog(c: Context, entry: AuditEntry) {
+  const payload = c.get('jwtPayload') as AuthPayload | undefined;
+  const hasChanges = entry.before !== undefined || entry.after !== undefined;
+
+  try {
+    await db.insert(auditLogsTable).values({
+      actorId: entry.actorId !== undefined ? entry.actorId : (payload?.userId ?? null),
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      changes: hasChanges ? diffChanges(entry.before ?? null, entry.after ?? null) : null,
+      ip: getClientIP(c),
+      userAgent: c.req.header('User-Agent')?.substring(0, 512) ?? null,
+    });
+  } catch (error) {
+    logger.error(`Error writing audit log for ${entry.action} ${entry.entityId}: ${error}`);
+  }
+}
@@ -0,0 +1,70 @@
+import { servicesTable } from '../../db/schema/schema.js';
+import { SERVICE_TYPE } from '../../types/service.type.js';
+import { decryptSecret, isEncrypted } from '../encryption.js';
+import { logger } from '../logger.js';
+
+export type Service = typeof servicesTable.$inferSelect;
+
+export type CollectedRecord = {
+  recordId: number;
+  recordedAt: Date;
+  data: Record<string, unknown>;
+};
+
+export type CollectResult =
+  { success: true; records: CollectedRecord[] } | { success: false; message: string };
+
+export interface LogCollector {
+  type: SERVICE_TYPE;
+  collect(service: Service): Promise<CollectResult>;
+}
+
+type HistoryResponse<T> = {
+  success: boolean;
+  data: T[];
+};
+
+// Services already warned about, so each plaintext key is only reported once per process
+const plaintextKeyWarned = new Set<number>();
+
+/**
+ * Keys stored before encryption was added stay usable until `db:encrypt-keys` is run.
+ */
+function getApiKey(service: Service) {
+  if (isEncrypted(service.resStatusApiKey)) {
+    return decryptSecret(service.resStatusApiKey);
+  }
+
+  if (!plaintextKeyWarned.has(service.id)) {
+    plaintextKeyWarned.add(service.id);
+    logger.warn(
+      `Service ${service.id} API key is stored in plaintext; run db:encrypt-keys to encrypt it`
+    );
+  }
+
+  return service.resStatusApiKey;
+}
+
+/**
+ * Fetch a history endpoint from the service's res status api using its api key.
+ * Returns null when the request fails or the api reports an unsuccessful response.
+ */
+export async function fetchHistory<T>(service: Service, path: string): Promise<T[] | null> {
+  const response = await fetch(`${service.resStatusApiUrl}${path}`, {
+    headers: {
+      'x-api-key': getApiKey(service),
+    },
+  });
+
+  if (!response.ok) {
+    return null;
+  }
+
+  const history: HistoryResponse<T> = await response.json();
+
+  if (!history.success) {
+    return null;
+  }
+
+  return history.data;
+}
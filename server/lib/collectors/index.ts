@@ -0,0 +1,17 @@
+import { SERVICE_TYPE } from '../../types/service.type.js';
+import { LogCollector } from './collector.js';
+import { serverCollector } from './serverCollector.js';
+import { sharedHostingCollector } from './sharedHostingCollector.js';
+import { vpsCollector } from './vpsCollector.js';
+
+const collectors: Partial<Record<SERVICE_TYPE, LogCollector>> = {
+  [SERVICE_TYPE.SERVER]: serverCollector,
+  [SERVICE_TYPE.VPS]: vpsCollector,
+  [SERVICE_TYPE.SHARED_HOSTING]: sharedHostingCollector,
+};
+
+export function getCollector(type: number): LogCollector | undefined {
+  return collectors[type as SERVICE_TYPE];
+}
+
+export type { CollectedRecord, CollectResult, LogCollector, Service } from './collector.js';
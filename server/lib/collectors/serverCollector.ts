@@ -0,0 +1,23 @@
+import { ServerMetricsData, SERVICE_TYPE } from '../../types/service.type.js';
+import { fetchHistory, LogCollector } from './collector.js';
+
+// Collects cpu, memory, load, disk and network metrics from a dedicated server agent
+export const serverCollector: LogCollector = {
+  type: SERVICE_TYPE.SERVER,
+  async collect(service) {
+    const history = await fetchHistory<ServerMetricsData>(service, '/metrics/history');
+
+    if (!history) {
+      return { success: false, message: 'Failed to fetch metrics from server agent.' };
+    }
+
+    return {
+      success: true,
+      records: history.map((record) => ({
+        recordId: record.id,
+        recordedAt: new Date(record.checked_at),
+        data: record,
+      })),
+    };
+  },
+};
@@ -0,0 +1,26 @@
+import { SERVICE_TYPE, SharedHostingHistoryData } from '../../types/service.type.js';
+import { fetchHistory, LogCollector } from './collector.js';
+
+// Collects disk and inode usage from the shared hosting res status api
+export const sharedHostingCollector: LogCollector = {
+  type: SERVICE_TYPE.SHARED_HOSTING,
+  async collect(service) {
+    const history = await fetchHistory<SharedHostingHistoryData>(
+      service,
+      '/resource-usage/history'
+    );
+
+    if (!history) {
+      return { success: false, message: 'Failed to fetch history from res status api.' };
+    }
+
+    return {
+      success: true,
+      records: history.map((record) => ({
+        recordId: record.id,
+        recordedAt: new Date(record.checked_at),
+        data: record,
+      })),
+    };
+  },
+};
@@ -0,0 +1,23 @@
+import { SERVICE_TYPE, VpsMetricsData } from '../../types/service.type.js';
+import { fetchHistory, LogCollector } from './collector.js';
+
+// Collects cpu (including steal), memory, load, disk and network metrics from a VPS agent
+export const vpsCollector: LogCollector = {
+  type: SERVICE_TYPE.VPS,
+  async collect(service) {
+    const history = await fetchHistory<VpsMetricsData>(service, '/metrics/history');
+
+    if (!history) {
+      return { success: false, message: 'Failed to fetch metrics from VPS agent.' };
+    }
+
+    return {
+      success: true,
+      records: history.map((record) => ({
+        recordId: record.id,
+        recordedAt: new Date(record.checked_at),
+        data: record,
+      })),
+    };
+  },
+};
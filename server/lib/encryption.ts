@@ -0,0 +1,99 @@
+import crypto from 'crypto';
+
+import env from './env.js';
+
+// Encrypted values look like `enc:v<version>:<iv>:<auth tag>:<ciphertext>` (base64 parts)
+const PREFIX = 'enc';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+/**
+ * Parse APP_ENCRYPTION_KEYS (`<version>:<base64 32-byte key>` pairs separated by commas).
+ */
+function parseKeys(value: string) {
+  const keys = new Map<number, Buffer>();
+
+  for (const entry of value.split(',')) {
+    const [version, encodedKey] = entry.trim().split(':');
+    const key = Buffer.from(encodedKey ?? '', 'base64');
+
+    if (!/^\d+$/.test(version) || key.length !== 32) {
+      throw new Error(
+        'APP_ENCRYPTION_KEYS must be comma separated <version>:<base64 32-byte key> pairs'
+      );
+    }
+    keys.set(Number(version), key);
+  }
+
+  return keys;
+}
+
+const keys = parseKeys(env.APP_ENCRYPTION_KEYS);
+const currentVersion = env.APP_ENCRYPTION_KEY_VERSION
+  ? Number(env.APP_ENCRYPTION_KEY_VERSION)
+  : Math.max(...keys.keys());
+
+if (!keys.has(currentVersion)) {
+  throw new Error(`APP_ENCRYPTION_KEY_VERSION ${currentVersion} is not in APP_ENCRYPTION_KEYS`);
+}
+
+export function isEncrypted(value: string) {
+  return value.startsWith(`${PREFIX}:v`);
+}
+
+function getVersion(value: string) {
+  return Number(value.split(':')[1]?.slice(1));
+}
+
+/**
+ * True when the value is still plaintext or was encrypted with an older key version.
+ */
+export function needsReencryption(value: string) {
+  return !isEncrypted(value) || getVersion(value) !== currentVersion;
+}
+
+export function encryptSecret(plaintext: string) {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, keys.get(currentVersion)!, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return [
+    PREFIX,
+    `v${currentVersion}`,
+    iv.toString('base64'),
+    cipher.getAuthTag().toString('base64'),
+    ciphertext.toString('base64'),
+  ].join(':');
+}
+
+export function decryptSecret(value: string) {
+  if (!isEncrypted(value)) {
+    throw new Error('Value is not encrypted');
+  }
+
+  const [, , iv, authTag, ciphertext] = value.split(':');
+  const version = getVersion(value);
+  const key = keys.get(version);
+
+  if (!key) {
+    throw new Error(`Encryption key version ${version} is not configured`);
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64')),
+    decipher.final(),
+  ]).toString('utf8');
+}
+
+// Secrets this short are masked entirely, as their last 4 characters would reveal too much
+const MIN_HINT_LENGTH = 9;
+
+/**
+ * Masked hint safe to show in API responses, e.g. `****abcd`.
+ */
+export function maskSecret(plaintext: string) {
+  return plaintext.length < MIN_HINT_LENGTH ? '****' : `****${plaintext.slice(-4)}`;
+}
@@ -12,8 +12,47 @@ const envSchema = z.object({
   DB_PASSWORD: z.string(),
   DB_NAME: z.string(),
   JWT_SECRET: z.string(),
-  HASH_SALT: z.string().default('salt'),
+  // Shared salt used before per-password salts; only needed to detect hashes to upgrade
+  HASH_SALT: z.string().optional(),
+  PASSWORD_HASH_COST: z.string().default('12'),
   TURNSTILE_SECRET_KEY: z.string(),
+  APP_ENCRYPTION_KEYS: z.string(),
+  APP_ENCRYPTION_KEY_VERSION: z.string().optional(),
+  RATE_LIMIT_ENABLED: z.enum(['true', 'false']).default('true'),
+  RATE_LIMIT_STORE: z.enum(['memory', 'mysql']).default('memory'),
+  // Reverse proxies in front of the app; 0 ignores x-forwarded-for and uses the socket address
+  TRUSTED_PROXY_HOPS: z.string().default('0'),
+  SCREENING_MODE_AUTH: z.enum(['off', 'log', 'block']).default('block'),
+  SCREENING_MODE_API: z.enum(['off', 'log', 'block']).default('log'),
+  // Comma separated entries added to the built-in screening allowlists
+  SCREENING_ALLOWLIST_SUSPICIOUS_PATTERN_IPS: z.string().default(''),
+  SCREENING_ALLOWLIST_SUSPICIOUS_PATTERN_USER_AGENTS: z.string().default(''),
+  SCREENING_ALLOWLIST_SUSPICIOUS_PATTERN_PATHS: z.string().default(''),
+  SCREENING_ALLOWLIST_BLOCKED_USER_AGENT_IPS: z.string().default(''),
+  SCREENING_ALLOWLIST_BLOCKED_USER_AGENT_USER_AGENTS: z.string().default(''),
+  SCREENING_ALLOWLIST_BLOCKED_USER_AGENT_PATHS: z.string().default(''),
+  CSP_REPORT_ONLY: z.enum(['true', 'false']).default('false'),
+  LOG_SYNC_ENABLED: z.enum(['true', 'false']).default('true'),
+  LOG_SYNC_INTERVAL_SECONDS: z.string().default('300'),
+  UPTIME_CHECK_ENABLED: z.enum(['true', 'false']).default('true'),
+  UPTIME_CHECK_INTERVAL_SECONDS: z.string().default('60'),
+  UPTIME_CHECK_TIMEOUT_MS: z.string().default('10000'),
+  RETENTION_ENABLED: z.enum(['true', 'false']).default('true'),
+  // Rolling up deletes raw logs for good, so the job only reports until this is set to false
+  RETENTION_DRY_RUN: z.enum(['true', 'false']).default('true'),
+  RETENTION_RAW_DAYS: z.string().default('30'),
+  RETENTION_HOURLY_DAYS: z.string().default('365'),
+  RETENTION_DAILY_DAYS: z.string().default('1825'),
+  APP_URL: z.string().default('http://localhost:3000'),
+  MAIL_TRANSPORT: z.enum(['smtp', 'file', 'console']).optional(),
+  MAIL_FILE_DIR: z.string().default('server/storage/mail'),
+  SMTP_HOST: z.string().default('localhost'),
+  SMTP_PORT: z.string().default('1025'),
+  SMTP_SECURE: z.enum(['true', 'false']).default('false'),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASSWORD: z.string().optional(),
+  MAIL_FROM: z.string().default('Systrack <no-reply@localhost>'),
+  NOTIFICATION_MAX_ATTEMPTS: z.string().default('5'),
 });
 
 export default envSchema.parse(process.env);
@@ -0,0 +1,123 @@
+import { eq, gt, gte, inArray, like, lt, lte, ne, SQL } from 'drizzle-orm';
+import { MySqlColumn } from 'drizzle-orm/mysql-core';
+
+import { AppliedFilter } from '../types/pagination.type.js';
+
+export const FILTER_CONDITIONS = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'like', 'in'] as const;
+
+export type FilterCondition = (typeof FILTER_CONDITIONS)[number];
+
+export type FilterableColumn = {
+  column: MySqlColumn;
+  type: 'number' | 'string' | 'date';
+};
+
+// Columns a resource allows in the `filter` query parameter, keyed by the name clients use
+export type FilterWhitelist = Record<string, FilterableColumn>;
+
+export type ParsedFilter =
+  | { success: true; conditions: SQL[]; appliedFilters: AppliedFilter[] }
+  | { success: false; message: string };
+
+function parseValue(raw: string, type: FilterableColumn['type']) {
+  if (type === 'number') {
+    const value = Number(raw);
+    return raw.trim() !== '' && Number.isFinite(value) ? value : undefined;
+  }
+  if (type === 'date') {
+    const value = new Date(raw);
+    return Number.isNaN(value.getTime()) ? undefined : value;
+  }
+  return raw;
+}
+
+function buildCondition(
+  column: MySqlColumn,
+  condition: FilterCondition,
+  value: string | number | Date | (string | number | Date)[]
+): SQL {
+  switch (condition) {
+    case 'eq':
+      return eq(column, value);
+    case 'neq':
+      return ne(column, value);
+    case 'gt':
+      return gt(column, value);
+    case 'gte':
+      return gte(column, value);
+    case 'lt':
+      return lt(column, value);
+    case 'lte':
+      return lte(column, value);
+    case 'like':
+      return like(column, `%${value}%`);
+    case 'in':
+      return inArray(column, value as (string | number | Date)[]);
+  }
+}
+
+/**
+ * Parse a filter string such as `type:eq:3,status:eq:1,createdAt:gte:2026-01-01` into drizzle
+ * conditions. Filters are `column:condition:value` joined by commas; `in` takes values
+ * separated by `|`. Only whitelisted columns are accepted.
+ */
+export function parseFilter(filter: string | undefined, whitelist: FilterWhitelist): ParsedFilter {
+  const conditions: SQL[] = [];
+  const appliedFilters: AppliedFilter[] = [];
+
+  if (!filter) {
+    return { success: true, conditions, appliedFilters };
+  }
+
+  for (const part of filter.split(',')) {
+    if (part.trim() === '') {
+      continue;
+    }
+
+    const [columnName, condition, ...rest] = part.split(':');
+    const rawValue = rest.join(':');
+
+    const filterable = Object.prototype.hasOwnProperty.call(whitelist, columnName)
+      ? whitelist[columnName]
+      : undefined;
+    if (!filterable) {
+      return {
+        success: false,
+        message: `Cannot filter by "${columnName}". Allowed columns: ${Object.keys(whitelist).join(', ')}.`,
+      };
+    }
+
+    if (!FILTER_CONDITIONS.includes(condition as FilterCondition)) {
+      return {
+        success: false,
+        message: `Invalid filter condition "${condition}". Allowed conditions: ${FILTER_CONDITIONS.join(', ')}.`,
+      };
+    }
+
+    if (condition === 'like' && filterable.type !== 'string') {
+      return {
+        success: false,
+        message: `The like condition is not supported for "${columnName}".`,
+      };
+    }
+
+    const rawValues = condition === 'in' ? rawValue.split('|') : [rawValue];
+    const values = rawValues.map((value) => parseValue(value, filterable.type));
+
+    if (rawValue === '' || values.some((value) => value === undefined)) {
+      return { success: false, message: `Invalid value "${rawValue}" for "${columnName}".` };
+    }
+
+    const parsedValues = values as (string | number | Date)[];
+    conditions.push(
+      buildCondition(
+        filterable.column,
+        condition as FilterCondition,
+        condition === 'in' ? parsedValues : parsedValues[0]
+      )
+    );
+    appliedFilters.push({ column: columnName, value: rawValue, condition });
+  }
+
+  return { success: true, conditions, appliedFilters };
+}
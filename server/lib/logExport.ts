@@ -0,0 +1,245 @@
+import { and, asc, eq, gt, gte, inArray, isNull, lt } from 'drizzle-orm';
+
+import { db } from '../db/database.js';
+import { serviceLogRollupsTable, serviceLogsTable } from '../db/schema/schema.js';
+import {
+  LogExportFormat,
+  LogResolution,
+  LogRollupResolution,
+  MetricRollup,
+  SERVICE_TYPE_INFO_FIELDS,
+  SERVICE_TYPE_METRIC_FIELDS,
+} from '../types/service.type.js';
+import { Service } from './collectors/index.js';
+
+// Rows read per query; only one batch is held in memory at a time
+const EXPORT_BATCH_SIZE = 1000;
+
+const BASE_COLUMNS = [
+  'service_id',
+  'service_name',
+  'record_id',
+  'recorded_at',
+  'resolution',
+  'sample_count',
+];
+
+type ExportRange = {
+  from?: Date;
+  to?: Date;
+};
+
+// A raw log, or an hourly/daily rollup whose data holds count/min/max/sum/last per field
+type ExportRow = {
+  serviceId: number;
+  resolution: LogResolution;
+  recordId: number | null;
+  recordedAt: Date; // bucket start for rollups
+  sampleCount: number;
+  data: Record<string, unknown>;
+};
+
+type ExportLog = Pick<
+  typeof serviceLogsTable.$inferSelect,
+  'id' | 'serviceId' | 'data' | 'recordId' | 'recordedAt'
+>;
+
+/**
+ * Read rollups of one resolution in id order, one batch at a time. This is the part of the
+ * history retention already took out of the raw logs; buckets are included when they start
+ * within the range.
+ */
+async function* iterateServiceLogRollups(
+  serviceIds: number[],
+  resolution: LogRollupResolution,
+  { from, to }: ExportRange
+): AsyncGenerator<ExportRow> {
+  let lastId = 0;
+
+  for (;;) {
+    const rollups = await db
+      .select({
+        id: serviceLogRollupsTable.id,
+        serviceId: serviceLogRollupsTable.serviceId,
+        bucketStart: serviceLogRollupsTable.bucketStart,
+        sampleCount: serviceLogRollupsTable.sampleCount,
+        data: serviceLogRollupsTable.data,
+      })
+      .from(serviceLogRollupsTable)
+      .where(
+        and(
+          inArray(serviceLogRollupsTable.serviceId, serviceIds),
+          eq(serviceLogRollupsTable.resolution, resolution),
+          gt(serviceLogRollupsTable.id, lastId),
+          from ? gte(serviceLogRollupsTable.bucketStart, from) : undefined,
+          to ? lt(serviceLogRollupsTable.bucketStart, to) : undefined
+        )
+      )
+      .orderBy(asc(serviceLogRollupsTable.id))
+      .limit(EXPORT_BATCH_SIZE);
+
+    for (const rollup of rollups) {
+      yield {
+        serviceId: rollup.serviceId,
+        resolution,
+        recordId: null,
+        recordedAt: rollup.bucketStart,
+        sampleCount: rollup.sampleCount,
+        data: rollup.data,
+      };
+    }
+
+    if (rollups.length < EXPORT_BATCH_SIZE) {
+      return;
+    }
+    lastId = rollups[rollups.length - 1].id;
+  }
+}
+
+/**
+ * Read raw logs of the services in id order, one batch at a time (keyset pagination), so
+ * large histories are never loaded at once.
+ */
+async function* iterateServiceLogs(
+  serviceIds: number[],
+  { from, to }: ExportRange
+): AsyncGenerator<ExportRow> {
+  let lastId = 0;
+
+  for (;;) {
+    const logs: ExportLog[] = await db
+      .select({
+        id: serviceLogsTable.id,
+        serviceId: serviceLogsTable.serviceId,
+        data: serviceLogsTable.data,
+        recordId: serviceLogsTable.recordId,
+        recordedAt: serviceLogsTable.recordedAt,
+      })
+      .from(serviceLogsTable)
+      .where(
+        and(
+          inArray(serviceLogsTable.serviceId, serviceIds),
+          isNull(serviceLogsTable.deletedAt),
+          gt(serviceLogsTable.id, lastId),
+          from ? gte(serviceLogsTable.recordedAt, from) : undefined,
+          to ? lt(serviceLogsTable.recordedAt, to) : undefined
+        )
+      )
+      .orderBy(asc(serviceLogsTable.id))
+      .limit(EXPORT_BATCH_SIZE);
+
+    for (const log of logs) {
+      yield {
+        serviceId: log.serviceId,
+        resolution: 'raw',
+        recordId: log.recordId,
+        recordedAt: log.recordedAt,
+        sampleCount: 1,
+        data: (log.data ?? {}) as Record<string, unknown>,
+      };
+    }
+
+    if (logs.length < EXPORT_BATCH_SIZE) {
+      return;
+    }
+    lastId = logs[logs.length - 1].id;
+  }
+}
+
+/**
+ * Quote a CSV value when needed. Text starting with a formula character is prefixed with a
+ * quote so spreadsheets don't evaluate values reported by the agents.
+ */
+function toCsvValue(value: unknown) {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Known data fields of every exported service type, in a stable order
+function getDataColumns(services: Service[]) {
+  const columns = new Set<string>();
+
+  for (const service of services) {
+    for (const field of SERVICE_TYPE_INFO_FIELDS[service.type] ?? []) {
+      columns.add(field);
+    }
+    for (const field of SERVICE_TYPE_METRIC_FIELDS[service.type] ?? []) {
+      columns.add(field);
+    }
+  }
+
+  return [...columns];
+}
+
+// Oldest data first: daily rollups, then hourly rollups, then raw logs
+async function* iterateServiceHistory(serviceIds: number[], range: ExportRange) {
+  yield* iterateServiceLogRollups(serviceIds, 'daily', range);
+  yield* iterateServiceLogRollups(serviceIds, 'hourly', range);
+  yield* iterateServiceLogs(serviceIds, range);
+}
+
+// Rollups have no single value per field, so CSV gets the bucket average
+function getCsvFieldValue(row: ExportRow, field: string) {
+  if (row.resolution === 'raw') {
+    return row.data[field];
+  }
+
+  const rollup = row.data[field] as MetricRollup | undefined;
+  return rollup && rollup.count > 0 ? rollup.sum / rollup.count : null;
+}
+
+/**
+ * Produce the export line by line, covering the full history: the part retention has rolled
+ * up is exported as hourly/daily rows, marked by their resolution. CSV flattens `data` into
+ * one column per known field of the services' types; fields a service type doesn't report are
+ * left empty.
+ */
+export async function* exportServiceLogs(
+  services: Service[],
+  format: LogExportFormat,
+  range: ExportRange
+) {
+  const serviceNames = new Map(services.map((service) => [service.id, service.name]));
+  const rows = iterateServiceHistory([...serviceNames.keys()], range);
+
+  if (format === 'ndjson') {
+    for await (const row of rows) {
+      yield `${JSON.stringify({
+        serviceId: row.serviceId,
+        serviceName: serviceNames.get(row.serviceId),
+        resolution: row.resolution,
+        recordId: row.recordId,
+        recordedAt: row.recordedAt.toISOString(),
+        sampleCount: row.sampleCount,
+        data: row.data,
+      })}\n`;
+    }
+    return;
+  }
+
+  const dataColumns = getDataColumns(services);
+  yield `${[...BASE_COLUMNS, ...dataColumns].join(',')}\n`;
+
+  for await (const row of rows) {
+    const values = [
+      row.serviceId,
+      serviceNames.get(row.serviceId),
+      row.recordId,
+      row.recordedAt.toISOString(),
+      row.resolution,
+      row.sampleCount,
+      ...dataColumns.map((column) => getCsvFieldValue(row, column)),
+    ];
+
+    yield `${values.map(toCsvValue).join(',')}\n`;
+  }
+}
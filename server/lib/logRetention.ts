@@ -0,0 +1,395 @@
+import { and, asc, count, eq, inArray, lt } from 'drizzle-orm';
+
+import { db } from '../db/database.js';
+import { serviceLogRollupsTable, serviceLogsTable } from '../db/schema/schema.js';
+import {
+  LogResolution,
+  LogRollupResolution,
+  MetricRollupData,
+  SERVICE_TYPE_METRIC_FIELDS,
+} from '../types/service.type.js';
+import { getMetricValue } from './alertEvaluator.js';
+import { Service } from './collectors/index.js';
+import env from './env.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Rows moved per transaction, so a large backlog never holds locks for long
+const BATCH_SIZE = 5000;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+type Rollup = {
+  bucketStart: Date;
+  sampleCount: number;
+  data: MetricRollupData;
+  lastRecordedAt: Date;
+};
+
+export type RetentionPolicy = {
+  rawDays: number;
+  hourlyDays: number;
+  dailyDays: number; // 0: keep forever
+};
+
+export type RetentionCutoffs = {
+  raw: Date;
+  hourly: Date;
+  daily: Date | null;
+};
+
+export type RetentionReport = {
+  serviceId: number;
+  dryRun: boolean;
+  policy: RetentionPolicy;
+  cutoffs: RetentionCutoffs;
+  // In a dry run these are the rows that would be affected
+  rawLogsRolledUp: number;
+  hourlyRollupsRolledUp: number;
+  dailyRollupsDeleted: number;
+};
+
+const floorTo = (time: number, unitMs: number) => new Date(Math.floor(time / unitMs) * unitMs);
+
+/**
+ * The service's retention days, falling back to the env defaults. Rollups are always kept at
+ * least as long as the data they replace.
+ */
+export function getRetentionPolicy(service: Service): RetentionPolicy {
+  const rawDays = service.rawRetentionDays ?? Number(env.RETENTION_RAW_DAYS);
+  const hourlyDays = Math.max(
+    service.hourlyRetentionDays ?? Number(env.RETENTION_HOURLY_DAYS),
+    rawDays
+  );
+  const dailyDays = service.dailyRetentionDays ?? Number(env.RETENTION_DAILY_DAYS);
+
+  return { rawDays, hourlyDays, dailyDays: dailyDays === 0 ? 0 : Math.max(dailyDays, hourlyDays) };
+}
+
+/**
+ * Data older than each cutoff moves to the next resolution. Cutoffs are aligned to whole
+ * buckets so a bucket is never split between two resolutions.
+ */
+export function getRetentionCutoffs(policy: RetentionPolicy, now = new Date()): RetentionCutoffs {
+  return {
+    raw: floorTo(now.getTime() - policy.rawDays * DAY_MS, HOUR_MS),
+    hourly: floorTo(now.getTime() - policy.hourlyDays * DAY_MS, DAY_MS),
+    daily:
+      policy.dailyDays === 0 ? null : floorTo(now.getTime() - policy.dailyDays * DAY_MS, DAY_MS),
+  };
+}
+
+/**
+ * Whether the retention job actually moves logs. Disabled or in a dry run, raw logs past the
+ * cutoffs are kept.
+ */
+export function isRetentionApplied() {
+  return env.RETENTION_ENABLED === 'true' && env.RETENTION_DRY_RUN !== 'true';
+}
+
+/**
+ * Oldest time a newly collected record can still be stored raw. Older records may already be
+ * counted in a rollup, since rollups don't keep record ids. Null while retention isn't applied,
+ * as nothing has been rolled up then.
+ */
+export function getRawStoreCutoff(service: Service) {
+  return isRetentionApplied() ? getRetentionCutoffs(getRetentionPolicy(service)).raw : null;
+}
+
+/**
+ * Pick where logs before the given date live. Anything newer than raw retention is still raw,
+ * and so is everything while retention isn't applied.
+ */
+export function getLogResolution(service: Service, before: Date | null): LogResolution {
+  if (!before || !isRetentionApplied()) {
+    return 'raw';
+  }
+
+  const cutoffs = getRetentionCutoffs(getRetentionPolicy(service));
+
+  if (before > cutoffs.raw) {
+    return 'raw';
+  }
+
+  return before > cutoffs.hourly ? 'hourly' : 'daily';
+}
+
+/**
+ * Merge two rollups of the same bucket. `last` comes from whichever saw the later record.
+ */
+function mergeRollups(a: Rollup, b: Rollup): Rollup {
+  const [older, newer] = a.lastRecordedAt <= b.lastRecordedAt ? [a, b] : [b, a];
+  const data: MetricRollupData = { ...older.data };
+
+  for (const [field, value] of Object.entries(newer.data)) {
+    const current = data[field];
+    data[field] = current
+      ? {
+          count: current.count + value.count,
+          min: Math.min(current.min, value.min),
+          max: Math.max(current.max, value.max),
+          sum: current.sum + value.sum,
+          last: value.last,
+        }
+      : value;
+  }
+
+  return {
+    bucketStart: a.bucketStart,
+    sampleCount: a.sampleCount + b.sampleCount,
+    data,
+    lastRecordedAt: newer.lastRecordedAt,
+  };
+}
+
+function addToBuckets(buckets: Map<number, Rollup>, rollup: Rollup) {
+  const key = rollup.bucketStart.getTime();
+  const existing = buckets.get(key);
+  buckets.set(key, existing ? mergeRollups(existing, rollup) : rollup);
+}
+
+/**
+ * Write rollups, merging them into rows already stored for the same bucket (late records, or a
+ * bucket spread over several batches).
+ */
+async function saveRollups(
+  tx: Transaction,
+  serviceId: number,
+  resolution: LogRollupResolution,
+  rollups: Rollup[]
+) {
+  if (rollups.length === 0) {
+    return;
+  }
+
+  const existingRows = await tx
+    .select()
+    .from(serviceLogRollupsTable)
+    .where(
+      and(
+        eq(serviceLogRollupsTable.serviceId, serviceId),
+        eq(serviceLogRollupsTable.resolution, resolution),
+        inArray(
+          serviceLogRollupsTable.bucketStart,
+          rollups.map((rollup) => rollup.bucketStart)
+        )
+      )
+    )
+    .for('update');
+
+  for (const rollup of rollups) {
+    const existing = existingRows.find(
+      (row) => row.bucketStart.getTime() === rollup.bucketStart.getTime()
+    );
+
+    if (!existing) {
+      await tx.insert(serviceLogRollupsTable).values({ serviceId, resolution, ...rollup });
+      continue;
+    }
+
+    const merged = mergeRollups(existing, rollup);
+    await tx
+      .update(serviceLogRollupsTable)
+      .set({
+        sampleCount: merged.sampleCount,
+        data: merged.data,
+        lastRecordedAt: merged.lastRecordedAt,
+        updatedAt: new Date(),
+      })
+      .where(eq(serviceLogRollupsTable.id, existing.id));
+  }
+}
+
+/**
+ * Aggregate raw logs before the cutoff into hourly rollups and delete them, one batch per
+ * transaction. Soft-deleted logs are dropped without being counted. Returns the logs removed.
+ */
+async function rollUpRawLogs(service: Service, cutoff: Date) {
+  const fields = SERVICE_TYPE_METRIC_FIELDS[service.type] ?? [];
+  let total = 0;
+
+  for (;;) {
+    const moved = await db.transaction(async (tx) => {
+      const logs = await tx
+        .select({
+          id: serviceLogsTable.id,
+          data: serviceLogsTable.data,
+          recordedAt: serviceLogsTable.recordedAt,
+          deletedAt: serviceLogsTable.deletedAt,
+        })
+        .from(serviceLogsTable)
+        .where(
+          and(eq(serviceLogsTable.serviceId, service.id), lt(serviceLogsTable.recordedAt, cutoff))
+        )
+        .orderBy(asc(serviceLogsTable.recordedAt), asc(serviceLogsTable.id))
+        .limit(BATCH_SIZE);
+
+      const buckets = new Map<number, Rollup>();
+
+      for (const log of logs) {
+        if (log.deletedAt) {
+          continue;
+        }
+
+        const data: MetricRollupData = {};
+        for (const field of fields) {
+          const value = getMetricValue(log.data, field);
+          if (value !== null) {
+            data[field] = { count: 1, min: value, max: value, sum: value, last: value };
+          }
+        }
+
+        addToBuckets(buckets, {
+          bucketStart: floorTo(log.recordedAt.getTime(), HOUR_MS),
+          sampleCount: 1,
+          data,
+          lastRecordedAt: log.recordedAt,
+        });
+      }
+
+      await saveRollups(tx, service.id, 'hourly', [...buckets.values()]);
+
+      if (logs.length > 0) {
+        await tx.delete(serviceLogsTable).where(
+          inArray(
+            serviceLogsTable.id,
+            logs.map((log) => log.id)
+          )
+        );
+      }
+
+      return logs.length;
+    });
+
+    total += moved;
+
+    if (moved < BATCH_SIZE) {
+      return total;
+    }
+  }
+}
+
+/**
+ * Merge hourly rollups before the cutoff into daily rollups and delete them. Returns the
+ * hourly rollups removed.
+ */
+async function rollUpHourlyRollups(service: Service, cutoff: Date) {
+  let total = 0;
+
+  for (;;) {
+    const moved = await db.transaction(async (tx) => {
+      const hourly = await tx
+        .select()
+        .from(serviceLogRollupsTable)
+        .where(
+          and(
+            eq(serviceLogRollupsTable.serviceId, service.id),
+            eq(serviceLogRollupsTable.resolution, 'hourly'),
+            lt(serviceLogRollupsTable.bucketStart, cutoff)
+          )
+        )
+        .orderBy(asc(serviceLogRollupsTable.bucketStart))
+        .limit(BATCH_SIZE);
+
+      const buckets = new Map<number, Rollup>();
+
+      for (const rollup of hourly) {
+        addToBuckets(buckets, {
+          bucketStart: floorTo(rollup.bucketStart.getTime(), DAY_MS),
+          sampleCount: rollup.sampleCount,
+          data: rollup.data,
+          lastRecordedAt: rollup.lastRecordedAt,
+        });
+      }
+
+      await saveRollups(tx, service.id, 'daily', [...buckets.values()]);
+
+      if (hourly.length > 0) {
+        await tx.delete(serviceLogRollupsTable).where(
+          inArray(
+            serviceLogRollupsTable.id,
+            hourly.map((rollup) => rollup.id)
+          )
+        );
+      }
+
+      return hourly.length;
+    });
+
+    total += moved;
+
+    if (moved < BATCH_SIZE) {
+      return total;
+    }
+  }
+}
+
+async function deleteDailyRollups(service: Service, cutoff: Date) {
+  const [result] = await db
+    .delete(serviceLogRollupsTable)
+    .where(
+      and(
+        eq(serviceLogRollupsTable.serviceId, service.id),
+        eq(serviceLogRollupsTable.resolution, 'daily'),
+        lt(serviceLogRollupsTable.bucketStart, cutoff)
+      )
+    );
+
+  return result.affectedRows;
+}
+
+async function countRollups(service: Service, resolution: LogRollupResolution, cutoff: Date) {
+  const [result] = await db
+    .select({ count: count() })
+    .from(serviceLogRollupsTable)
+    .where(
+      and(
+        eq(serviceLogRollupsTable.serviceId, service.id),
+        eq(serviceLogRollupsTable.resolution, resolution),
+        lt(serviceLogRollupsTable.bucketStart, cutoff)
+      )
+    );
+
+  return result.count;
+}
+
+/**
+ * Apply the service's retention policy: raw logs past raw retention become hourly rollups,
+ * hourly rollups past hourly retention become daily rollups, and daily rollups past daily
+ * retention are deleted. A dry run only counts what is currently due.
+ */
+export async function applyLogRetention(
+  service: Service,
+  { dryRun = false, now = new Date() } = {}
+): Promise<RetentionReport> {
+  const policy = getRetentionPolicy(service);
+  const cutoffs = getRetentionCutoffs(policy, now);
+  const report = { serviceId: service.id, dryRun, policy, cutoffs };
+
+  if (dryRun) {
+    const [raw] = await db
+      .select({ count: count() })
+      .from(serviceLogsTable)
+      .where(
+        and(
+          eq(serviceLogsTable.serviceId, service.id),
+          lt(serviceLogsTable.recordedAt, cutoffs.raw)
+        )
+      );
+
+    return {
+      ...report,
+      rawLogsRolledUp: raw.count,
+      hourlyRollupsRolledUp: await countRollups(service, 'hourly', cutoffs.hourly),
+      dailyRollupsDeleted: cutoffs.daily ? await countRollups(service, 'daily', cutoffs.daily) : 0,
+    };
+  }
+
+  return {
+    ...report,
+    rawLogsRolledUp: await rollUpRawLogs(service, cutoffs.raw),
+    hourlyRollupsRolledUp: await rollUpHourlyRollups(service, cutoffs.hourly),
+    dailyRollupsDeleted: cutoffs.daily ? await deleteDailyRollups(service, cutoffs.daily) : 0,
+  };
+}
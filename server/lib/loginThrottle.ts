@@ -0,0 +1,181 @@
+import { and, count, desc, eq, gt, gte } from 'drizzle-orm';
+
+import { db } from '../db/database.js';
+import { loginAttemptsTable, usersTable } from '../db/schema/schema.js';
+import { logger } from './logger.js';
+import { sendMail } from './mailer.js';
+import { SECURITY_CONFIG } from './security.js';
+
+const { LOGIN_THROTTLE } = SECURITY_CONFIG;
+
+type LockableUser = Pick<typeof usersTable.$inferSelect, 'id' | 'email' | 'name' | 'lockedUntil'>;
+
+export type LoginThrottleCheck =
+  { allowed: true; delayMs: number } | { allowed: false; retryAfterSeconds: number };
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const latest = (...dates: (Date | null | undefined)[]) =>
+  new Date(Math.max(...dates.map((date) => date?.getTime() ?? 0)));
+
+// Failures for the email since the window start, its last successful login or its last lockout
+async function countEmailFailures(email: string, lockedUntil?: Date | null) {
+  const now = Date.now();
+
+  const lastSuccess = await db
+    .select({ createdAt: loginAttemptsTable.createdAt })
+    .from(loginAttemptsTable)
+    .where(and(eq(loginAttemptsTable.email, email), eq(loginAttemptsTable.success, 1)))
+    .orderBy(desc(loginAttemptsTable.createdAt))
+    .limit(1);
+
+  const since = latest(
+    new Date(now - LOGIN_THROTTLE.windowMs),
+    lastSuccess[0]?.createdAt,
+    lockedUntil && lockedUntil.getTime() <= now ? lockedUntil : null
+  );
+
+  const result = await db
+    .select({ count: count() })
+    .from(loginAttemptsTable)
+    .where(
+      and(
+        eq(loginAttemptsTable.email, email),
+        eq(loginAttemptsTable.success, 0),
+        gt(loginAttemptsTable.createdAt, since)
+      )
+    );
+
+  return result[0].count;
+}
+
+async function countIPFailures(ip: string) {
+  const result = await db
+    .select({ count: count() })
+    .from(loginAttemptsTable)
+    .where(
+      and(
+        eq(loginAttemptsTable.ip, ip),
+        eq(loginAttemptsTable.success, 0),
+        gt(loginAttemptsTable.createdAt, new Date(Date.now() - LOGIN_THROTTLE.windowMs))
+      )
+    );
+
+  return result[0].count;
+}
+
+/**
+ * Failures for the email since the given time, e.g. since an MFA pending token was issued.
+ */
+export async function countLoginFailuresSince(email: string, since: Date) {
+  const result = await db
+    .select({ count: count() })
+    .from(loginAttemptsTable)
+    .where(
+      and(
+        eq(loginAttemptsTable.email, email),
+        eq(loginAttemptsTable.success, 0),
+        gte(loginAttemptsTable.createdAt, since)
+      )
+    );
+
+  return result[0].count;
+}
+
+function progressiveDelay(failures: number) {
+  if (failures < LOGIN_THROTTLE.delayAfterFailures) {
+    return 0;
+  }
+  const delay = LOGIN_THROTTLE.baseDelayMs * 2 ** (failures - LOGIN_THROTTLE.delayAfterFailures);
+  return Math.min(delay, LOGIN_THROTTLE.maxDelayMs);
+}
+
+/**
+ * Decide whether a login attempt may proceed. Locked accounts and IPs over the failure limit
+ * are refused; otherwise the caller should wait `delayMs` before checking the password.
+ */
+export async function checkLoginAllowed(
+  email: string,
+  ip: string,
+  user?: LockableUser
+): Promise<LoginThrottleCheck> {
+  const now = Date.now();
+
+  if (user?.lockedUntil && user.lockedUntil.getTime() > now) {
+    return {
+      allowed: false,
+      retryAfterSeconds: Math.ceil((user.lockedUntil.getTime() - now) / 1000),
+    };
+  }
+
+  const ipFailures = await countIPFailures(ip);
+  if (ipFailures >= LOGIN_THROTTLE.maxFailuresPerIP) {
+    return { allowed: false, retryAfterSeconds: Math.ceil(LOGIN_THROTTLE.windowMs / 1000) };
+  }
+
+  const emailFailures = await countEmailFailures(email, user?.lockedUntil);
+
+  return { allowed: true, delayMs: progressiveDelay(Math.max(emailFailures, ipFailures)) };
+}
+
+export async function waitForLoginDelay(check: LoginThrottleCheck) {
+  if (check.allowed && check.delayMs > 0) {
+    await sleep(check.delayMs);
+  }
+}
+
+function notifyLockout(user: LockableUser, lockedUntil: Date) {
+  sendMail({
+    to: user.email,
+    subject: 'Your account has been temporarily locked',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      `Your account was locked after ${LOGIN_THROTTLE.maxFailuresPerEmail} failed sign-in attempts.`,
+      `You can try again after ${lockedUntil.toISOString()}, or ask an admin to unlock it.`,
+      '',
+      'If these attempts were not made by you, change your password once you can sign in again.',
+    ].join('\n'),
+  }).catch((error) => {
+    logger.error(`Error sending lockout notification to user ${user.id}: ${error}`);
+  });
+}
+
+/**
+ * Record a login attempt. When a failure pushes the account over the limit the account is
+ * locked, the user is emailed, and the new lock expiry is returned.
+ */
+export async function recordLoginAttempt(
+  email: string,
+  ip: string,
+  success: boolean,
+  user?: LockableUser
+): Promise<Date | null> {
+  await db.insert(loginAttemptsTable).values({ email, ip, success: success ? 1 : 0 });
+
+  if (success || !user) {
+    return null;
+  }
+
+  const failures = await countEmailFailures(email, user.lockedUntil);
+  if (failures < LOGIN_THROTTLE.maxFailuresPerEmail) {
+    return null;
+  }
+
+  const lockedUntil = new Date(Date.now() + LOGIN_THROTTLE.lockoutMs);
+  await db.update(usersTable).set({ lockedUntil }).where(eq(usersTable.id, user.id));
+  logger.warn(
+    `User ${user.id} locked until ${lockedUntil.toISOString()} after ${failures} failures`
+  );
+
+  notifyLockout(user, lockedUntil);
+
+  return lockedUntil;
+}
+
+/**
+ * Lift a lockout. Setting the lock expiry to now also discards the failures counted so far.
+ */
+export async function unlockUser(userId: number) {
+  await db.update(usersTable).set({ lockedUntil: new Date() }).where(eq(usersTable.id, userId));
+}
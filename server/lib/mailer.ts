@@ -0,0 +1,78 @@
+import fs from 'fs/promises';
+import nodemailer from 'nodemailer';
+import path from 'path';
+
+import env from './env.js';
+import { logger } from './logger.js';
+
+export type MailMessage = {
+  to: string | string[];
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+export type MailTransportName = 'smtp' | 'file' | 'console';
+
+interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+// Delivers through the configured SMTP server
+function createSmtpTransport(): MailTransport {
+  const transport = nodemailer.createTransport({
+    host: env.SMTP_HOST,
+    port: Number(env.SMTP_PORT),
+    secure: env.SMTP_SECURE === 'true',
+    auth: env.SMTP_USER ? { user: env.SMTP_USER, pass: env.SMTP_PASSWORD } : undefined,
+  });
+
+  return {
+    async send(message) {
+      await transport.sendMail(message);
+    },
+  };
+}
+
+// Writes each message as an .eml file that mail clients can open
+function createFileTransport(): MailTransport {
+  const transport = nodemailer.createTransport({ streamTransport: true, buffer: true });
+  const mailDir = path.join(process.cwd(), env.MAIL_FILE_DIR);
+
+  return {
+    async send(message) {
+      const info = await transport.sendMail(message);
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${info.messageId}.eml`;
+
+      await fs.mkdir(mailDir, { recursive: true });
+      await fs.writeFile(path.join(mailDir, fileName.replace(/[<>@]/g, '')), info.message);
+    },
+  };
+}
+
+// Prints messages to the log, for local development without a mail server
+function createConsoleTransport(): MailTransport {
+  return {
+    async send(message) {
+      logger.info(`Mail to ${[message.to].flat().join(', ')}: ${message.subject}\n${message.text}`);
+    },
+  };
+}
+
+const transportName: MailTransportName =
+  env.MAIL_TRANSPORT ?? (env.NODE_ENV === 'production' ? 'smtp' : 'console');
+
+const transports: Record<MailTransportName, () => MailTransport> = {
+  smtp: createSmtpTransport,
+  file: createFileTransport,
+  console: createConsoleTransport,
+};
+
+const transport = transports[transportName]();
+
+export async function sendMail(message: MailMessage) {
+  await transport.send({
+    from: env.MAIL_FROM,
+    ...message,
+  });
+}
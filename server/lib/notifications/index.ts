@@ -0,0 +1,237 @@
+import { and, eq, isNull, lte } from 'drizzle-orm';
+
+import { db } from '../../db/database.js';
+import { notificationChannelsTable, notificationDeliveriesTable } from '../../db/schema/schema.js';
+import {
+  NOTIFICATION_CHANNEL_STATUS,
+  NOTIFICATION_DELIVERY_STATUS,
+  NotificationEvent,
+  NotificationMessage,
+  NotificationVariables,
+} from '../../types/notification.type.js';
+import env from '../env.js';
+import { logger } from '../logger.js';
+import { NotificationChannel, senders } from './senders.js';
+import { DEFAULT_TEMPLATES, renderTemplate } from './templates.js';
+
+type NotificationDelivery = typeof notificationDeliveriesTable.$inferSelect;
+
+const maxAttempts = Number(env.NOTIFICATION_MAX_ATTEMPTS);
+
+// First retry after 30 seconds, doubling on every failed attempt
+const RETRY_BASE_SECONDS = 30;
+
+// A delivery being attempted is leased this long so the retry job leaves it alone; if the
+// process dies mid-attempt, it is retried once the lease runs out
+const ATTEMPT_LEASE_MS = 5 * 60 * 1000;
+
+const leaseEnd = () => new Date(Date.now() + ATTEMPT_LEASE_MS);
+
+// Sample values so a test message can preview the channel's alert templates
+const TEST_VARIABLES: NotificationVariables = {
+  rule_name: 'Low disk space',
+  service_id: 0,
+  service_name: 'Example service',
+  metric_path: 'available_space_mb',
+  comparator: '<',
+  threshold: 1024,
+  value: 512,
+  fired_at: new Date(0).toISOString(),
+  resolved_at: null,
+};
+
+export function buildMessage(
+  channel: NotificationChannel,
+  event: NotificationEvent,
+  variables: NotificationVariables
+): NotificationMessage {
+  const template = DEFAULT_TEMPLATES[event];
+  return {
+    event,
+    subject: renderTemplate(channel.subjectTemplate ?? template.subject, variables),
+    body: renderTemplate(channel.bodyTemplate ?? template.body, variables),
+    variables,
+  };
+}
+
+/**
+ * Send a delivery through its channel and record the attempt. Failed deliveries stay pending
+ * with a backoff until NOTIFICATION_MAX_ATTEMPTS is reached, unless `retry` is false.
+ */
+async function attemptDelivery(
+  delivery: NotificationDelivery,
+  channel: NotificationChannel,
+  retry = true
+) {
+  const attempts = delivery.attempts + 1;
+  const now = new Date();
+
+  try {
+    await senders[channel.type](channel, delivery.message);
+
+    await db
+      .update(notificationDeliveriesTable)
+      .set({
+        status: NOTIFICATION_DELIVERY_STATUS.SENT,
+        attempts,
+        lastError: null,
+        nextAttemptAt: null,
+        sentAt: now,
+        updatedAt: now,
+      })
+      .where(eq(notificationDeliveriesTable.id, delivery.id));
+  } catch (error) {
+    const canRetry = retry && attempts < maxAttempts;
+    logger.warn(`Notification delivery ${delivery.id} failed (attempt ${attempts}): ${error}`);
+
+    await db
+      .update(notificationDeliveriesTable)
+      .set({
+        status: canRetry
+          ? NOTIFICATION_DELIVERY_STATUS.PENDING
+          : NOTIFICATION_DELIVERY_STATUS.FAILED,
+        attempts,
+        lastError: String(error),
+        nextAttemptAt: canRetry
+          ? new Date(now.getTime() + RETRY_BASE_SECONDS * 2 ** (attempts - 1) * 1000)
+          : null,
+        updatedAt: now,
+      })
+      .where(eq(notificationDeliveriesTable.id, delivery.id));
+  }
+
+  const updated = await db
+    .select()
+    .from(notificationDeliveriesTable)
+    .where(eq(notificationDeliveriesTable.id, delivery.id));
+
+  return updated[0];
+}
+
+async function createDelivery(
+  channel: NotificationChannel,
+  event: NotificationEvent,
+  variables: NotificationVariables,
+  alertId: number | null = null,
+  retry = true
+) {
+  const [{ id }] = await db
+    .insert(notificationDeliveriesTable)
+    .values({
+      channelId: channel.id,
+      alertId,
+      event,
+      message: buildMessage(channel, event, variables),
+      status: NOTIFICATION_DELIVERY_STATUS.PENDING,
+      nextAttemptAt: leaseEnd(),
+    })
+    .$returningId();
+
+  const delivery = await db
+    .select()
+    .from(notificationDeliveriesTable)
+    .where(eq(notificationDeliveriesTable.id, id));
+
+  return attemptDelivery(delivery[0], channel, retry);
+}
+
+/**
+ * Send an event to every active notification channel.
+ */
+export async function notifyAllChannels(
+  event: NotificationEvent,
+  variables: NotificationVariables,
+  alertId: number | null = null
+) {
+  const channels = await db
+    .select()
+    .from(notificationChannelsTable)
+    .where(
+      and(
+        eq(notificationChannelsTable.status, NOTIFICATION_CHANNEL_STATUS.ACTIVE),
+        isNull(notificationChannelsTable.deletedAt)
+      )
+    );
+
+  const results = await Promise.allSettled(
+    channels.map((channel) => createDelivery(channel, event, variables, alertId))
+  );
+
+  for (const result of results) {
+    if (result.status === 'rejected') {
+      logger.error(`Error creating notification delivery: ${result.reason}`);
+    }
+  }
+}
+
+/**
+ * Send a one-off test message through a channel. Test deliveries are recorded but not retried.
+ */
+export async function sendTestNotification(channel: NotificationChannel) {
+  return createDelivery(
+    channel,
+    'test',
+    {
+      ...TEST_VARIABLES,
+      channel_name: channel.name,
+      sent_at: new Date().toISOString(),
+    },
+    null,
+    false
+  );
+}
+
+/**
+ * Lease a due delivery for an attempt. Only one caller wins when retry runs overlap, e.g. on
+ * several instances.
+ */
+async function claimDelivery(delivery: NotificationDelivery) {
+  const [result] = await db
+    .update(notificationDeliveriesTable)
+    .set({ nextAttemptAt: leaseEnd() })
+    .where(
+      and(
+        eq(notificationDeliveriesTable.id, delivery.id),
+        eq(notificationDeliveriesTable.status, NOTIFICATION_DELIVERY_STATUS.PENDING),
+        lte(notificationDeliveriesTable.nextAttemptAt, new Date())
+      )
+    );
+
+  return result.affectedRows > 0;
+}
+
+/**
+ * Retry pending deliveries whose backoff has elapsed. Deliveries of inactive channels wait
+ * until the channel is active again.
+ */
+export async function retryPendingDeliveries(batchSize = 50) {
+  const pending = await db
+    .select({
+      delivery: notificationDeliveriesTable,
+      channel: notificationChannelsTable,
+    })
+    .from(notificationDeliveriesTable)
+    .innerJoin(
+      notificationChannelsTable,
+      eq(notificationDeliveriesTable.channelId, notificationChannelsTable.id)
+    )
+    .where(
+      and(
+        eq(notificationDeliveriesTable.status, NOTIFICATION_DELIVERY_STATUS.PENDING),
+        lte(notificationDeliveriesTable.nextAttemptAt, new Date()),
+        eq(notificationChannelsTable.status, NOTIFICATION_CHANNEL_STATUS.ACTIVE),
+        isNull(notificationChannelsTable.deletedAt)
+      )
+    )
+    .limit(batchSize);
+
+  for (const { delivery, channel } of pending) {
+    if (await claimDelivery(delivery)) {
+      await attemptDelivery(delivery, channel);
+    }
+  }
+
+  return pending.length;
+}
+
+export type { NotificationChannel };
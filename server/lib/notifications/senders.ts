@@ -0,0 +1,71 @@
+import { notificationChannelsTable } from '../../db/schema/schema.js';
+import {
+  ChatChannelConfig,
+  EmailChannelConfig,
+  NotificationChannelType,
+  NotificationMessage,
+  WebhookChannelConfig,
+} from '../../types/notification.type.js';
+import { sendMail } from '../mailer.js';
+
+export type NotificationChannel = typeof notificationChannelsTable.$inferSelect;
+
+type NotificationSender = (
+  channel: NotificationChannel,
+  message: NotificationMessage
+) => Promise<void>;
+
+async function postJson(url: string, body: unknown, headers: Record<string, string> = {}) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...headers,
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Request to ${url} failed: ${response.status} ${response.statusText}`);
+  }
+}
+
+const sendWebhook: NotificationSender = async (channel, message) => {
+  const config = channel.config as WebhookChannelConfig;
+  await postJson(
+    config.url,
+    {
+      event: message.event,
+      subject: message.subject,
+      message: message.body,
+      data: message.variables,
+    },
+    config.headers
+  );
+};
+
+const sendEmail: NotificationSender = async (channel, message) => {
+  const config = channel.config as EmailChannelConfig;
+  await sendMail({
+    to: config.to,
+    subject: message.subject,
+    text: message.body,
+  });
+};
+
+const sendSlack: NotificationSender = async (channel, message) => {
+  const config = channel.config as ChatChannelConfig;
+  await postJson(config.url, { text: `*${message.subject}*\n${message.body}` });
+};
+
+const sendDiscord: NotificationSender = async (channel, message) => {
+  const config = channel.config as ChatChannelConfig;
+  await postJson(config.url, { content: `**${message.subject}**\n${message.body}` });
+};
+
+export const senders: Record<NotificationChannelType, NotificationSender> = {
+  webhook: sendWebhook,
+  email: sendEmail,
+  slack: sendSlack,
+  discord: sendDiscord,
+};
@@ -0,0 +1,31 @@
+import { NotificationEvent, NotificationVariables } from '../../types/notification.type.js';
+
+type MessageTemplate = {
+  subject: string;
+  body: string;
+};
+
+export const DEFAULT_TEMPLATES: Record<NotificationEvent, MessageTemplate> = {
+  'alert.firing': {
+    subject: '[FIRING] {{rule_name}} on {{service_name}}',
+    body: '{{metric_path}} is {{value}} ({{comparator}} {{threshold}}) on {{service_name}} since {{fired_at}}.',
+  },
+  'alert.resolved': {
+    subject: '[RESOLVED] {{rule_name}} on {{service_name}}',
+    body: '{{metric_path}} is back to {{value}} on {{service_name}}, resolved at {{resolved_at}}.',
+  },
+  test: {
+    subject: 'Test notification from {{channel_name}}',
+    body: 'This is a test notification for channel {{channel_name}} sent at {{sent_at}}.',
+  },
+};
+
+/**
+ * Replace `{{key}}` placeholders with the matching variable. Unknown keys render as empty.
+ */
+export function renderTemplate(template: string, variables: NotificationVariables) {
+  return template.replace(/{{\s*([\w.]+)\s*}}/g, (_match, key: string) => {
+    const value = variables[key];
+    return value === undefined || value === null ? '' : String(value);
+  });
+}
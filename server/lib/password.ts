@@ -0,0 +1,37 @@
+import bcrypt from 'bcryptjs';
+
+import env from './env.js';
+
+const PASSWORD_HASH_COST = Number(env.PASSWORD_HASH_COST);
+
+// Length of the `$2a$<cost>$<22-char salt>` prefix of a bcrypt hash
+const BCRYPT_SALT_LENGTH = 29;
+
+/**
+ * Hash a password with its own random salt at the configured cost.
+ */
+export async function hashPassword(password: string) {
+  return bcrypt.hash(password, PASSWORD_HASH_COST);
+}
+
+export async function verifyPassword(password: string, hash: string) {
+  return bcrypt.compare(password, hash);
+}
+
+/**
+ * Whether a stored hash should be replaced after a successful login: it was made with the old
+ * shared HASH_SALT, or with a cost other than the configured one.
+ */
+export function needsRehash(hash: string) {
+  const legacySalt = env.HASH_SALT?.substring(0, BCRYPT_SALT_LENGTH);
+
+  if (legacySalt && hash.startsWith(legacySalt)) {
+    return true;
+  }
+
+  try {
+    return bcrypt.getRounds(hash) !== PASSWORD_HASH_COST;
+  } catch {
+    return true;
+  }
+}
@@ -0,0 +1,80 @@
+import crypto from 'crypto';
+import { and, eq, gte, isNull } from 'drizzle-orm';
+
+import { db } from '../db/database.js';
+import { passwordResetTokensTable } from '../db/schema/schema.js';
+import { SECURITY_CONFIG } from './security.js';
+
+const hashVerifier = (verifier: string) =>
+  crypto.createHash('sha256').update(verifier).digest('hex');
+
+/**
+ * Issue a single-use reset token in `<selector>.<verifier>` form, invalidating any earlier
+ * unused tokens of the user. Only a hash of the verifier is stored.
+ */
+export async function createPasswordResetToken(userId: number) {
+  const now = new Date();
+
+  await db
+    .update(passwordResetTokensTable)
+    .set({ usedAt: now })
+    .where(
+      and(eq(passwordResetTokensTable.userId, userId), isNull(passwordResetTokensTable.usedAt))
+    );
+
+  const id = crypto.randomUUID();
+  const verifier = crypto.randomBytes(32).toString('hex');
+  const expiresAt = new Date(now.getTime() + SECURITY_CONFIG.PASSWORD_RESET.tokenTtlMs);
+
+  await db.insert(passwordResetTokensTable).values({
+    id,
+    userId,
+    tokenHash: hashVerifier(verifier),
+    expiresAt,
+  });
+
+  return { token: `${id}.${verifier}`, expiresAt };
+}
+
+/**
+ * Validate a reset token and mark it used. Returns the user id, or null when the token is
+ * unknown, expired or already used.
+ */
+export async function consumePasswordResetToken(token: string) {
+  const [selector, verifier] = token.split('.');
+
+  if (!selector || !verifier) {
+    return null;
+  }
+
+  const [stored] = await db
+    .select()
+    .from(passwordResetTokensTable)
+    .where(
+      and(
+        eq(passwordResetTokensTable.id, selector),
+        isNull(passwordResetTokensTable.usedAt),
+        gte(passwordResetTokensTable.expiresAt, new Date())
+      )
+    );
+
+  if (!stored) {
+    return null;
+  }
+
+  const expected = Buffer.from(stored.tokenHash, 'hex');
+  const actual = Buffer.from(hashVerifier(verifier), 'hex');
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  // Guard against the same token being redeemed twice concurrently
+  const [result] = await db
+    .update(passwordResetTokensTable)
+    .set({ usedAt: new Date() })
+    .where(
+      and(eq(passwordResetTokensTable.id, stored.id), isNull(passwordResetTokensTable.usedAt))
+    );
+
+  return result.affectedRows > 0 ? stored.userId : null;
+}
@@ -0,0 +1,40 @@
+import { eq } from 'drizzle-orm';
+
+import { db } from '../db/database.js';
+import { rolePermissionsTable, rolesTable } from '../db/schema/schema.js';
+import { Permission } from '../types/permission.type.js';
+
+// Role permissions rarely change, so cache them briefly instead of querying on every request
+const CACHE_TTL_MS = 60 * 1000;
+
+const cache = new Map<string, { permissions: Set<Permission>; expiresAt: number }>();
+
+export async function getRolePermissions(roleName: string) {
+  const cached = cache.get(roleName);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.permissions;
+  }
+
+  const rows = await db
+    .select({ permission: rolePermissionsTable.permission })
+    .from(rolePermissionsTable)
+    .innerJoin(rolesTable, eq(rolePermissionsTable.roleId, rolesTable.id))
+    .where(eq(rolesTable.name, roleName));
+
+  const permissions = new Set(rows.map((row) => row.permission));
+  cache.set(roleName, { permissions, expiresAt: Date.now() + CACHE_TTL_MS });
+
+  return permissions;
+}
+
+export async function getRoleName(roleId: number) {
+  const role = await db
+    .select({ name: rolesTable.name })
+    .from(rolesTable)
+    .where(eq(rolesTable.id, roleId));
+  return role[0]?.name;
+}
+
+export function clearRolePermissionsCache() {
+  cache.clear();
+}
@@ -0,0 +1,155 @@
+import crypto from 'crypto';
+import { and, desc, eq, isNull } from 'drizzle-orm';
+
+import { db } from '../db/database.js';
+import { personalAccessTokensTable, rolesTable, usersTable } from '../db/schema/schema.js';
+import { PersonalTokenPayload } from '../middleware/jwt.js';
+import { Permission } from '../types/permission.type.js';
+import { logger } from './logger.js';
+
+// Lets tokenAuth tell personal access tokens apart from JWTs without trying to decode them
+export const PERSONAL_ACCESS_TOKEN_PREFIX = 'pat_';
+
+// Scripts may call the API many times a minute, so only record usage this often
+const LAST_USED_UPDATE_MS = 60 * 1000;
+
+const hashVerifier = (verifier: string) =>
+  crypto.createHash('sha256').update(verifier).digest('hex');
+
+const tokenColumns = {
+  id: personalAccessTokensTable.id,
+  name: personalAccessTokensTable.name,
+  scopes: personalAccessTokensTable.scopes,
+  expiresAt: personalAccessTokensTable.expiresAt,
+  lastUsedAt: personalAccessTokensTable.lastUsedAt,
+  createdAt: personalAccessTokensTable.createdAt,
+};
+
+type NewPersonalAccessToken = {
+  name: string;
+  scopes: Permission[];
+  expiresAt: Date | null;
+};
+
+/**
+ * Create a personal access token in `pat_<selector>.<verifier>` form. The plain token is only
+ * returned here; a SHA-256 hash of the verifier is stored.
+ */
+export async function createPersonalAccessToken(userId: number, values: NewPersonalAccessToken) {
+  const id = crypto.randomUUID();
+  const verifier = crypto.randomBytes(32).toString('hex');
+
+  await db.insert(personalAccessTokensTable).values({
+    id,
+    userId,
+    tokenHash: hashVerifier(verifier),
+    ...values,
+  });
+
+  const [created] = await db
+    .select(tokenColumns)
+    .from(personalAccessTokensTable)
+    .where(eq(personalAccessTokensTable.id, id));
+
+  return { token: `${PERSONAL_ACCESS_TOKEN_PREFIX}${id}.${verifier}`, data: created };
+}
+
+// Expired tokens are listed too, so users can see why a script stopped working
+export async function listPersonalAccessTokens(userId: number) {
+  return db
+    .select(tokenColumns)
+    .from(personalAccessTokensTable)
+    .where(
+      and(eq(personalAccessTokensTable.userId, userId), isNull(personalAccessTokensTable.revokedAt))
+    )
+    .orderBy(desc(personalAccessTokensTable.createdAt));
+}
+
+/**
+ * Revoke one of the user's tokens. Returns the revoked token, or null when it doesn't exist
+ * or was already revoked.
+ */
+export async function revokePersonalAccessToken(userId: number, id: string) {
+  const ownToken = and(
+    eq(personalAccessTokensTable.id, id),
+    eq(personalAccessTokensTable.userId, userId),
+    isNull(personalAccessTokensTable.revokedAt)
+  );
+
+  const [token] = await db.select(tokenColumns).from(personalAccessTokensTable).where(ownToken);
+
+  if (!token) {
+    return null;
+  }
+
+  await db
+    .update(personalAccessTokensTable)
+    .set({ revokedAt: new Date() })
+    .where(eq(personalAccessTokensTable.id, id));
+
+  return token;
+}
+
+/**
+ * Resolve a presented personal access token to the claims of its owner. Returns null when the
+ * token is malformed, unknown, revoked or expired, or its owner was deleted.
+ */
+export async function authenticatePersonalAccessToken(
+  token: string
+): Promise<PersonalTokenPayload | null> {
+  const [selector, verifier] = token.slice(PERSONAL_ACCESS_TOKEN_PREFIX.length).split('.');
+
+  if (!selector || !verifier) {
+    return null;
+  }
+
+  const [stored] = await db
+    .select({
+      id: personalAccessTokensTable.id,
+      tokenHash: personalAccessTokensTable.tokenHash,
+      scopes: personalAccessTokensTable.scopes,
+      expiresAt: personalAccessTokensTable.expiresAt,
+      lastUsedAt: personalAccessTokensTable.lastUsedAt,
+      userId: usersTable.id,
+      email: usersTable.email,
+      role: rolesTable.name,
+    })
+    .from(personalAccessTokensTable)
+    .innerJoin(usersTable, eq(personalAccessTokensTable.userId, usersTable.id))
+    .innerJoin(rolesTable, eq(usersTable.roleId, rolesTable.id))
+    .where(
+      and(
+        eq(personalAccessTokensTable.id, selector),
+        isNull(personalAccessTokensTable.revokedAt),
+        isNull(usersTable.deletedAt)
+      )
+    );
+
+  if (!stored || (stored.expiresAt && stored.expiresAt.getTime() <= Date.now())) {
+    return null;
+  }
+
+  const expected = Buffer.from(stored.tokenHash, 'hex');
+  const actual = Buffer.from(hashVerifier(verifier), 'hex');
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  if (!stored.lastUsedAt || Date.now() - stored.lastUsedAt.getTime() >= LAST_USED_UPDATE_MS) {
+    db.update(personalAccessTokensTable)
+      .set({ lastUsedAt: new Date() })
+      .where(eq(personalAccessTokensTable.id, stored.id))
+      .catch((error) => {
+        logger.error(`Error updating personal access token ${stored.id}: ${error}`);
+      });
+  }
+
+  return {
+    userId: stored.userId,
+    email: stored.email,
+    role: stored.role,
+    tokenId: stored.id,
+    scopes: stored.scopes,
+    type: 'personal',
+  };
+}
@@ -0,0 +1,88 @@
+import { lte, sql } from 'drizzle-orm';
+
+import { db } from '../db/database.js';
+import { rateLimitsTable } from '../db/schema/schema.js';
+
+export type RateLimitHit = {
+  count: number;
+  resetAt: Date;
+};
+
+export interface RateLimitStore {
+  /**
+   * Count a hit for the key in the current fixed window, starting a new window when expired.
+   */
+  increment(key: string, windowMs: number): Promise<RateLimitHit>;
+}
+
+// Single-instance store; counters are lost on restart
+export class MemoryRateLimitStore implements RateLimitStore {
+  private hits = new Map<string, RateLimitHit>();
+
+  constructor(cleanupIntervalMs = 60 * 1000) {
+    setInterval(() => this.cleanup(), cleanupIntervalMs).unref?.();
+  }
+
+  async increment(key: string, windowMs: number) {
+    const now = Date.now();
+    const current = this.hits.get(key);
+
+    if (!current || current.resetAt.getTime() <= now) {
+      const hit = { count: 1, resetAt: new Date(now + windowMs) };
+      this.hits.set(key, hit);
+      return hit;
+    }
+
+    current.count++;
+    return current;
+  }
+
+  private cleanup() {
+    const now = Date.now();
+    for (const [key, hit] of this.hits) {
+      if (hit.resetAt.getTime() <= now) {
+        this.hits.delete(key);
+      }
+    }
+  }
+}
+
+// Shared store for running several instances against the same database
+export class MySqlRateLimitStore implements RateLimitStore {
+  private lastCleanupAt = 0;
+
+  constructor(private cleanupIntervalMs = 60 * 1000) {}
+
+  async increment(key: string, windowMs: number) {
+    const now = new Date();
+    const resetAt = new Date(now.getTime() + windowMs);
+
+    // count is assigned before reset_at, so both IFs still see the old reset_at
+    await db
+      .insert(rateLimitsTable)
+      .values({ key, count: 1, resetAt })
+      .onDuplicateKeyUpdate({
+        set: {
+          count: sql`IF(${rateLimitsTable.resetAt} <= ${now}, 1, ${rateLimitsTable.count} + 1)`,
+          resetAt: sql`IF(${rateLimitsTable.resetAt} <= ${now}, ${resetAt}, ${rateLimitsTable.resetAt})`,
+        },
+      });
+
+    const rows = await db
+      .select({ count: rateLimitsTable.count, resetAt: rateLimitsTable.resetAt })
+      .from(rateLimitsTable)
+      .where(sql`${rateLimitsTable.key} = ${key}`);
+
+    await this.cleanup(now);
+
+    return rows[0] ?? { count: 1, resetAt };
+  }
+
+  private async cleanup(now: Date) {
+    if (now.getTime() - this.lastCleanupAt < this.cleanupIntervalMs) {
+      return;
+    }
+    this.lastCleanupAt = now.getTime();
+    await db.delete(rateLimitsTable).where(lte(rateLimitsTable.resetAt, now));
+  }
+}
@@ -0,0 +1,151 @@
+import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
+import { and, eq, gte, isNull, lt, or } from 'drizzle-orm';
+
+import { db } from '../db/database.js';
+import { userRefreshTokenTable } from '../db/schema/schema.js';
+
+type RefreshTokenRow = typeof userRefreshTokenTable.$inferSelect;
+
+// Revoked tokens are kept this long for reuse detection, expired ones are purged right away
+const REVOKED_TOKEN_RETENTION_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+const hashVerifier = (verifier: string) =>
+  crypto.createHash('sha256').update(verifier).digest('hex');
+
+const activeTokenCondition = () =>
+  and(eq(userRefreshTokenTable.isRevoked, 0), gte(userRefreshTokenTable.expiresAt, new Date()));
+
+/**
+ * Create a refresh token in `<selector>.<verifier>` form. The selector is the row id, so lookups
+ * go by primary key; only a SHA-256 hash of the high-entropy verifier is stored.
+ */
+export function createRefreshToken() {
+  const id = crypto.randomUUID();
+  const verifier = crypto.randomBytes(32).toString('hex');
+
+  return { id, token: `${id}.${verifier}`, tokenHash: hashVerifier(verifier) };
+}
+
+function verifierMatches(verifier: string, tokenHash: string) {
+  const expected = Buffer.from(tokenHash, 'hex');
+  const actual = Buffer.from(hashVerifier(verifier), 'hex');
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+// Tokens issued before the selector/verifier format are bcrypt hashes without a selector
+async function findLegacyRefreshToken(token: string, userId: number) {
+  const storedTokens = await db
+    .select()
+    .from(userRefreshTokenTable)
+    .where(and(eq(userRefreshTokenTable.userId, userId), activeTokenCondition()));
+
+  for (const stored of storedTokens) {
+    if (stored.token.startsWith('$2') && (await bcrypt.compare(token, stored.token))) {
+      return stored;
+    }
+  }
+
+  return undefined;
+}
+
+export type RefreshTokenCheck =
+  | { status: 'valid'; token: RefreshTokenRow }
+  | { status: 'reused'; token: RefreshTokenRow }
+  | { status: 'invalid' };
+
+/**
+ * Check a presented refresh token. A correct token that was already revoked is reported as
+ * `reused`, which means it was copied before rotation. Legacy tokens are only ever `valid`
+ * or `invalid`, since revoked legacy rows can't be found without scanning.
+ */
+export async function checkRefreshToken(token: string, userId: number): Promise<RefreshTokenCheck> {
+  const separator = token.indexOf('.');
+
+  if (separator === -1) {
+    const legacy = await findLegacyRefreshToken(token, userId);
+    return legacy ? { status: 'valid', token: legacy } : { status: 'invalid' };
+  }
+
+  const selector = token.slice(0, separator);
+  const verifier = token.slice(separator + 1);
+
+  const [stored] = await db
+    .select()
+    .from(userRefreshTokenTable)
+    .where(and(eq(userRefreshTokenTable.id, selector), eq(userRefreshTokenTable.userId, userId)));
+
+  if (!stored || !verifierMatches(verifier, stored.token)) {
+    return { status: 'invalid' };
+  }
+
+  if (stored.isRevoked === 1) {
+    return { status: 'reused', token: stored };
+  }
+
+  return stored.expiresAt >= new Date()
+    ? { status: 'valid', token: stored }
+    : { status: 'invalid' };
+}
+
+/**
+ * Find the user's active (non-revoked, unexpired) refresh token row matching the token.
+ */
+export async function findActiveRefreshToken(token: string, userId: number) {
+  const result = await checkRefreshToken(token, userId);
+  return result.status === 'valid' ? result.token : undefined;
+}
+
+/**
+ * Revoke a token. Returns false when it was already revoked, so of two concurrent rotations
+ * of the same token only one succeeds.
+ */
+export async function revokeRefreshToken(id: string) {
+  const [result] = await db
+    .update(userRefreshTokenTable)
+    .set({ isRevoked: 1, revokedAt: new Date() })
+    .where(and(eq(userRefreshTokenTable.id, id), eq(userRefreshTokenTable.isRevoked, 0)));
+
+  return result.affectedRows > 0;
+}
+
+/**
+ * Revoke every token descended from the same login.
+ * Returns the number of tokens that were still active.
+ */
+export async function revokeRefreshTokenFamily(familyId: string) {
+  const [result] = await db
+    .update(userRefreshTokenTable)
+    .set({ isRevoked: 1, revokedAt: new Date() })
+    .where(
+      and(eq(userRefreshTokenTable.familyId, familyId), eq(userRefreshTokenTable.isRevoked, 0))
+    );
+
+  return result.affectedRows;
+}
+
+/**
+ * Delete expired refresh tokens and tokens revoked longer ago than the retention period.
+ * Returns the number of rows removed.
+ */
+export async function purgeRefreshTokens() {
+  const now = new Date();
+  const revokedBefore = new Date(now.getTime() - REVOKED_TOKEN_RETENTION_MS);
+
+  const [result] = await db
+    .delete(userRefreshTokenTable)
+    .where(
+      or(
+        lt(userRefreshTokenTable.expiresAt, now),
+        and(
+          eq(userRefreshTokenTable.isRevoked, 1),
+          or(
+            isNull(userRefreshTokenTable.revokedAt),
+            lt(userRefreshTokenTable.revokedAt, revokedBefore)
+          )
+        )
+      )
+    );
+
+  return result.affectedRows;
+}
@@ -1,7 +1,18 @@
 // Security configuration and utilities
+import { Context } from 'hono';
+import { getConnInfo } from 'hono/bun';
+
+import { ScreeningAllowlist, ScreeningRule } from '../types/security.type';
 import env from './env';
 import { logger } from './logger';
 
+// Comma separated env list; blank entries are ignored
+const parseList = (value: string) =>
+  value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
 export const SECURITY_CONFIG = {
   // Rate limiting
   FORM_RATE_LIMIT: {
@@ -10,7 +21,28 @@ export const SECURITY_CONFIG = {
   },
   API_RATE_LIMIT: {
     windowMs: 1 * 60 * 1000, // 1 minute
-    max: 100, // 100 requests per IP
+    max: 100, // 100 requests per user (or per IP when unauthenticated)
+  },
+
+  // Failed login tracking; failures count within the window, since the last successful login
+  LOGIN_THROTTLE: {
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    maxFailuresPerEmail: 5, // then the account is locked
+    maxFailuresPerIP: 20, // then the IP is refused until its failures age out of the window
+    lockoutMs: 30 * 60 * 1000, // 30 minutes
+    delayAfterFailures: 2, // failures before responses start slowing down
+    baseDelayMs: 500, // doubled on every further failure
+    maxDelayMs: 8000,
+  },
+
+  // Second factor check after a password login; failures also count as failed logins
+  MFA_VERIFY: {
+    maxFailuresPerToken: 3, // then the password has to be entered again
+  },
+
+  // Password reset links
+  PASSWORD_RESET: {
+    tokenTtlMs: 60 * 60 * 1000, // 1 hour
   },
 
   // Input validation
@@ -101,6 +133,42 @@ export const SECURITY_CONFIG = {
     'slack',
   ],
 
+  // Request screening; the first route group whose prefix matches the path applies
+  SCREENING: {
+    ROUTE_GROUPS: [
+      { name: 'auth', prefix: '/api/v1/auth', mode: env.SCREENING_MODE_AUTH },
+      { name: 'api', prefix: '/api/v1', mode: env.SCREENING_MODE_API },
+    ],
+    // Request bodies larger than this are not scanned
+    MAX_BODY_BYTES: 64 * 1024,
+    // Body fields that may legitimately contain anything
+    SKIPPED_FIELDS: [
+      'password',
+      'currentPassword',
+      'newPassword',
+      'turnstileToken',
+      'refreshToken',
+    ],
+    // Requests matching an IP, user agent substring or path prefix here skip that rule;
+    // operators add their own entries through the SCREENING_ALLOWLIST_* env variables
+    ALLOWLISTS: {
+      suspicious_pattern: {
+        ips: parseList(env.SCREENING_ALLOWLIST_SUSPICIOUS_PATTERN_IPS),
+        userAgents: parseList(env.SCREENING_ALLOWLIST_SUSPICIOUS_PATTERN_USER_AGENTS),
+        paths: [
+          '/api/v1/csp-report',
+          ...parseList(env.SCREENING_ALLOWLIST_SUSPICIOUS_PATTERN_PATHS),
+        ],
+      },
+      blocked_user_agent: {
+        ips: parseList(env.SCREENING_ALLOWLIST_BLOCKED_USER_AGENT_IPS),
+        userAgents: parseList(env.SCREENING_ALLOWLIST_BLOCKED_USER_AGENT_USER_AGENTS),
+        // Push agents are usually curl or script HTTP clients
+        paths: ['/api/v1/ingest', ...parseList(env.SCREENING_ALLOWLIST_BLOCKED_USER_AGENT_PATHS)],
+      },
+    } as Record<ScreeningRule, ScreeningAllowlist>,
+  },
+
   // Content Security Policy
   CSP: {
     defaultSrc: ["'self'"],
@@ -113,6 +181,13 @@ export const SECURITY_CONFIG = {
     mediaSrc: ["'self'"],
     frameSrc: ["'self'", 'https://challenges.cloudflare.com', 'https://*.cloudflare.com'],
   },
+  CSP_REPORT_PATH: '/api/v1/csp-report',
+
+  // Other response headers
+  HSTS_MAX_AGE: 365 * 24 * 60 * 60, // 1 year, only sent in production
+  FRAME_OPTIONS: 'DENY',
+  REFERRER_POLICY: 'strict-origin-when-cross-origin',
+  PERMISSIONS_POLICY: ['camera=()', 'microphone=()', 'geolocation=()', 'payment=()', 'usb=()'],
 };
 
 export const sanitizeText = (input: string): string => {
@@ -136,6 +211,31 @@ export const isSuspiciousIP = (ip: string): boolean => {
   return SECURITY_CONFIG.SUSPICIOUS_IPS.some((range) => range.test(ip));
 };
 
+/**
+ * The client's IP. x-forwarded-for is client controlled, so it is only read when trusted
+ * proxies are configured, and then the entry appended by the outermost trusted proxy is used;
+ * anything to its left could have been sent by the client.
+ */
+export const getClientIP = (c: Context): string => {
+  const trustedHops = Number(env.TRUSTED_PROXY_HOPS);
+
+  if (trustedHops > 0) {
+    const forwardedFor = c.req.header('x-forwarded-for')?.split(',') ?? [];
+    const forwarded = forwardedFor[forwardedFor.length - trustedHops]?.trim();
+
+    if (forwarded) {
+      return forwarded;
+    }
+  }
+
+  try {
+    return getConnInfo(c).remote.address || 'unknown';
+  } catch {
+    // Not served by Bun (e.g. app.request() in scripts), so there is no socket to read
+    return 'unknown';
+  }
+};
+
 /**
  * Verify Cloudflare Turnstile token
  * @param token - The Turnstile token from the client
@@ -0,0 +1,36 @@
+import { Context } from 'hono';
+
+import { db } from '../db/database.js';
+import { securityEventsTable } from '../db/schema/schema.js';
+import { AuthPayload } from '../middleware/jwt.js';
+import { SecurityEventDetails, SecurityEventType } from '../types/security.type.js';
+import { logger } from './logger.js';
+import { getClientIP } from './security.js';
+
+/**
+ * Store a security event for the current request. Never throws, so callers can fire and forget.
+ */
+export async function recordSecurityEvent(
+  c: Context,
+  type: SecurityEventType,
+  details: SecurityEventDetails | null = null,
+  blocked = false
+) {
+  const payload = c.get('jwtPayload') as AuthPayload | undefined;
+  const ip = getClientIP(c);
+
+  try {
+    await db.insert(securityEventsTable).values({
+      type,
+      blocked: blocked ? 1 : 0,
+      ip,
+      userAgent: c.req.header('User-Agent')?.substring(0, 512) ?? null,
+      method: c.req.method,
+      path: c.req.path.substring(0, 2048),
+      userId: payload?.userId ?? null,
+      details,
+    });
+  } catch (error) {
+    logger.error(`Error recording security event ${type} from ${ip}: ${error}`);
+  }
+}
@@ -0,0 +1,76 @@
+import { YAML } from 'bun';
+
+import { ServiceDocument, ServiceDocumentFormat } from '../types/service.type.js';
+import { Service } from './collectors/index.js';
+import { decryptSecret, encryptSecret, isEncrypted } from './encryption.js';
+
+// Bumped when the shape of a document entry changes incompatibly
+export const SERVICE_DOCUMENT_VERSION = 1;
+
+// Older services may still store their API key in plaintext
+function readApiKey(stored: string) {
+  return isEncrypted(stored) ? decryptSecret(stored) : stored;
+}
+
+/**
+ * True when the stored key decrypts to the given one. A key that can no longer be decrypted
+ * (its key version was removed) is treated as different so the import replaces it.
+ */
+export function isSameApiKey(stored: string, apiKey: string) {
+  try {
+    return readApiKey(stored) === apiKey;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Build an export document. API keys are only included on request, and then always encrypted
+ * with the current key version, so they can only be imported by an instance sharing the keys.
+ */
+export function createServiceDocument(
+  services: Service[],
+  includeApiKeys: boolean
+): ServiceDocument {
+  return {
+    version: SERVICE_DOCUMENT_VERSION,
+    exportedAt: new Date().toISOString(),
+    services: services.map((service) => ({
+      name: service.name,
+      description: service.description,
+      type: service.type,
+      status: service.status,
+      resStatusApiUrl: service.resStatusApiUrl,
+      ...(includeApiKeys && {
+        resStatusApiKeyEncrypted: encryptSecret(readApiKey(service.resStatusApiKey)),
+      }),
+      syncIntervalSeconds: service.syncIntervalSeconds,
+      checkUrl: service.checkUrl,
+      checkIntervalSeconds: service.checkIntervalSeconds,
+      rawRetentionDays: service.rawRetentionDays,
+      hourlyRetentionDays: service.hourlyRetentionDays,
+      dailyRetentionDays: service.dailyRetentionDays,
+    })),
+  };
+}
+
+export function serializeServiceDocument(document: ServiceDocument, format: ServiceDocumentFormat) {
+  return format === 'yaml' ? YAML.stringify(document, null, 2) : JSON.stringify(document, null, 2);
+}
+
+/**
+ * Parse an import body as YAML when the content type says so, JSON otherwise. The result is
+ * validated by the caller.
+ */
+export function parseServiceDocument(
+  text: string,
+  contentType: string | undefined
+): { success: true; data: unknown } | { success: false; message: string } {
+  const format: ServiceDocumentFormat = contentType?.includes('yaml') ? 'yaml' : 'json';
+
+  try {
+    return { success: true, data: format === 'yaml' ? YAML.parse(text) : JSON.parse(text) };
+  } catch (error) {
+    return { success: false, message: `Invalid ${format.toUpperCase()} document: ${error}` };
+  }
+}
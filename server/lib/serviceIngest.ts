@@ -0,0 +1,145 @@
+import crypto from 'crypto';
+import { z } from 'zod';
+
+import {
+  ServerMetricsData,
+  SERVICE_TYPE,
+  SharedHostingHistoryData,
+  VpsMetricsData,
+} from '../types/service.type.js';
+import { CollectedRecord, Service } from './collectors/index.js';
+import { maskSecret } from './encryption.js';
+import { getRawStoreCutoff } from './logRetention.js';
+
+// Upper bound on records accepted by one ingest request
+export const MAX_INGEST_BATCH = 1000;
+
+const recordId = z.number().int().positive();
+const checkedAt = z
+  .string()
+  .refine((value) => !Number.isNaN(new Date(value).getTime()), 'Invalid date');
+
+// Pushed records have the same shape as the records the pull collectors fetch from agents
+const serverPayloadSchema: z.ZodType<ServerMetricsData> = z.object({
+  id: recordId,
+  hostname: z.string(),
+  cpu_usage_percent: z.number(),
+  cpu_cores: z.number(),
+  memory_total_mb: z.number(),
+  memory_used_mb: z.number(),
+  swap_total_mb: z.number(),
+  swap_used_mb: z.number(),
+  load_1: z.number(),
+  load_5: z.number(),
+  load_15: z.number(),
+  disk_total_mb: z.number(),
+  disk_used_mb: z.number(),
+  disk_available_mb: z.number(),
+  network_rx_bytes: z.number(),
+  network_tx_bytes: z.number(),
+  uptime_seconds: z.number(),
+  checked_at: checkedAt,
+});
+
+const vpsPayloadSchema: z.ZodType<VpsMetricsData> = z.object({
+  id: recordId,
+  hostname: z.string(),
+  virtualization: z.string(),
+  cpu_usage_percent: z.number(),
+  cpu_steal_percent: z.number(),
+  cpu_cores: z.number(),
+  memory_total_mb: z.number(),
+  memory_used_mb: z.number(),
+  load_1: z.number(),
+  load_5: z.number(),
+  load_15: z.number(),
+  disk_total_mb: z.number(),
+  disk_used_mb: z.number(),
+  disk_available_mb: z.number(),
+  network_rx_bytes: z.number(),
+  network_tx_bytes: z.number(),
+  bandwidth_used_mb: z.number(),
+  uptime_seconds: z.number(),
+  checked_at: checkedAt,
+});
+
+const sharedHostingPayloadSchema: z.ZodType<SharedHostingHistoryData> = z.object({
+  id: recordId,
+  base_path: z.string(),
+  file_count: z.number(),
+  disk_usage_mb: z.number(),
+  available_inode: z.number(),
+  available_space_mb: z.number(),
+  checked_at: checkedAt,
+});
+
+const payloadSchemas: Record<SERVICE_TYPE, z.ZodType<{ id: number; checked_at: string }>> = {
+  [SERVICE_TYPE.SERVER]: serverPayloadSchema,
+  [SERVICE_TYPE.VPS]: vpsPayloadSchema,
+  [SERVICE_TYPE.SHARED_HOSTING]: sharedHostingPayloadSchema,
+};
+
+export type RejectedRecord = {
+  index: number;
+  recordId: number | null;
+  reason: 'invalid' | 'expired' | 'duplicate';
+  errors?: string[];
+};
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Generate a new ingest token for a service. Only its hash and masked hint are stored.
+ */
+export function createIngestToken() {
+  const token = `ing_${crypto.randomBytes(32).toString('hex')}`;
+  return { token, ingestTokenHash: hashToken(token), ingestTokenHint: maskSecret(token) };
+}
+
+export function verifyIngestToken(service: Service, token: string) {
+  if (!service.ingestTokenHash) {
+    return false;
+  }
+
+  const expected = Buffer.from(service.ingestTokenHash, 'hex');
+  const actual = Buffer.from(hashToken(token), 'hex');
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Validate pushed records against the service type's payload schema. Returns the valid ones
+ * as collected records, and the index and reason of the others; while retention is applied,
+ * records older than raw retention are rejected as expired.
+ */
+export function parseIngestRecords(service: Service, payloads: unknown[]) {
+  const schema = payloadSchemas[service.type as SERVICE_TYPE];
+  const rawCutoff = getRawStoreCutoff(service);
+  const records: (CollectedRecord & { index: number })[] = [];
+  const rejected: RejectedRecord[] = [];
+
+  payloads.forEach((payload, index) => {
+    const parsed = schema.safeParse(payload);
+
+    if (!parsed.success) {
+      const id = (payload as { id?: unknown } | null)?.id;
+      rejected.push({
+        index,
+        recordId: typeof id === 'number' ? id : null,
+        reason: 'invalid',
+        errors: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+      });
+      return;
+    }
+
+    const recordedAt = new Date(parsed.data.checked_at);
+
+    if (rawCutoff && recordedAt < rawCutoff) {
+      rejected.push({ index, recordId: parsed.data.id, reason: 'expired' });
+      return;
+    }
+
+    records.push({ index, recordId: parsed.data.id, recordedAt, data: parsed.data });
+  });
+
+  return { records, rejected };
+}
@@ -0,0 +1,148 @@
+import { and, eq, inArray } from 'drizzle-orm';
+
+import { db } from '../db/database.js';
+import { serviceLogsTable, servicesTable } from '../db/schema/schema.js';
+import { evaluateAlertRules } from './alertEvaluator.js';
+import { CollectedRecord, getCollector, Service } from './collectors/index.js';
+import { logger } from './logger.js';
+import { getRawStoreCutoff } from './logRetention.js';
+
+export type { Service };
+export type NewServiceLog = typeof serviceLogsTable.$inferInsert;
+
+export type SyncLogsResult =
+  | { success: true; data: NewServiceLog[] }
+  | { success: false; status: 400 | 409 | 500; message: string };
+
+// Services with a sync in progress, shared by the manual route and the scheduler
+const syncingServiceIds = new Set<number>();
+
+export function isServiceSyncing(serviceId: number) {
+  return syncingServiceIds.has(serviceId);
+}
+
+/**
+ * Collect new log records for a service with its type's collector and store the ones
+ * we don't have yet.
+ * Only one sync per service runs at a time; concurrent calls get a 409 result.
+ */
+export async function syncServiceLogs(service: Service): Promise<SyncLogsResult> {
+  if (syncingServiceIds.has(service.id)) {
+    return { success: false, status: 409, message: 'Service logs are already being synced.' };
+  }
+
+  syncingServiceIds.add(service.id);
+  try {
+    return await runSync(service);
+  } finally {
+    syncingServiceIds.delete(service.id);
+  }
+}
+
+/**
+ * Store records pushed by the service itself through the ingest endpoint. Shares the sync lock,
+ * so a push and a pull of the same service can't insert the same record twice.
+ */
+export async function pushServiceLogs(
+  service: Service,
+  records: CollectedRecord[]
+): Promise<SyncLogsResult> {
+  if (syncingServiceIds.has(service.id)) {
+    return { success: false, status: 409, message: 'Service logs are already being synced.' };
+  }
+
+  syncingServiceIds.add(service.id);
+  try {
+    return { success: true, data: await storeServiceLogs(service, records) };
+  } catch (error) {
+    logger.error(`Error storing pushed logs for service ${service.id}: ${error}`);
+    return { success: false, status: 500, message: 'Internal server error.' };
+  } finally {
+    syncingServiceIds.delete(service.id);
+  }
+}
+
+/**
+ * Insert the records we don't have yet, then evaluate alert rules against them. A pushed
+ * batch counts as a sync too, so the scheduler doesn't pull from hosts that push.
+ * Returns the inserted rows.
+ */
+async function storeServiceLogs(service: Service, collected: CollectedRecord[]) {
+  // Records past raw retention may already be in a rollup; storing them would count them twice
+  const rawCutoff = getRawStoreCutoff(service);
+  const records = rawCutoff
+    ? collected.filter((record) => record.recordedAt >= rawCutoff)
+    : collected;
+
+  const listRecordIds = records.map((record) => record.recordId);
+
+  // get list of record ids from service logs table
+  const listRecordIdsResponse =
+    listRecordIds.length > 0
+      ? await db
+          .select({ recordId: serviceLogsTable.recordId })
+          .from(serviceLogsTable)
+          .where(
+            and(
+              eq(serviceLogsTable.serviceId, service.id),
+              inArray(serviceLogsTable.recordId, listRecordIds)
+            )
+          )
+      : [];
+
+  // skip records already stored, and repeats of a record within the same batch
+  const seenRecordIds = new Set(listRecordIdsResponse.map((response) => response.recordId));
+  const listRecordIdsToInsert = records.filter((record) => {
+    if (seenRecordIds.has(record.recordId)) {
+      return false;
+    }
+    seenRecordIds.add(record.recordId);
+    return true;
+  });
+
+  const valuesToInsert: NewServiceLog[] = listRecordIdsToInsert.map((record) => ({
+    serviceId: service.id,
+    recordId: record.recordId,
+    data: record.data,
+    recordedAt: record.recordedAt,
+  }));
+
+  if (valuesToInsert.length > 0) {
+    // insert into service logs table
+    await db.insert(serviceLogsTable).values(valuesToInsert);
+
+    try {
+      await evaluateAlertRules(service);
+    } catch (error) {
+      logger.error(`Error evaluating alert rules for service ${service.id}: ${error}`);
+    }
+  }
+
+  await db
+    .update(servicesTable)
+    .set({ lastSyncedAt: new Date() })
+    .where(eq(servicesTable.id, service.id));
+
+  return valuesToInsert;
+}
+
+async function runSync(service: Service): Promise<SyncLogsResult> {
+  const collector = getCollector(service.type);
+
+  if (!collector) {
+    return { success: false, status: 400, message: 'Service is not configured to sync logs.' };
+  }
+
+  try {
+    const collected = await collector.collect(service);
+
+    if (!collected.success) {
+      return { success: false, status: 500, message: collected.message };
+    }
+
+    return { success: true, data: await storeServiceLogs(service, collected.records) };
+  } catch (error) {
+    logger.error(`Error collecting logs for service ${service.id}: ${error}`);
+    return { success: false, status: 500, message: 'Internal server error.' };
+  }
+}
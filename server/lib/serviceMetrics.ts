@@ -0,0 +1,173 @@
+import { and, asc, count, eq, gte, isNull, lt, sql } from 'drizzle-orm';
+
+import { db } from '../db/database.js';
+import { serviceLogRollupsTable, serviceLogsTable } from '../db/schema/schema.js';
+import { LogResolution, LogRollupResolution, MetricBucketValue } from '../types/service.type.js';
+import { Service } from './collectors/index.js';
+import { getRetentionCutoffs, getRetentionPolicy } from './logRetention.js';
+
+function toNumber(value: string | number | null) {
+  return value === null ? null : Number(value);
+}
+
+/**
+ * Aggregate one numeric field of service_logs.data into fixed-size time buckets.
+ * Runs entirely in MySQL over the (service_id, recorded_at) index.
+ */
+async function getRawMetricBuckets(
+  serviceId: number,
+  metric: string,
+  from: Date,
+  to: Date,
+  bucketSeconds: number
+): Promise<MetricBucketValue[]> {
+  const jsonPath = `$.${metric}`;
+  const value = sql`CAST(JSON_UNQUOTE(JSON_EXTRACT(${serviceLogsTable.data}, ${jsonPath})) AS DECIMAL(30, 6))`;
+  const bucketStart = sql<number>`FLOOR(UNIX_TIMESTAMP(${serviceLogsTable.recordedAt}) / ${bucketSeconds}) * ${bucketSeconds}`;
+
+  // latest value in the bucket
+  const lastValue = sql<string | null>`SUBSTRING_INDEX(
+    GROUP_CONCAT(${value} ORDER BY ${serviceLogsTable.recordedAt} DESC), ',', 1
+  )`;
+
+  const rows = await db
+    .select({
+      bucketStart: bucketStart.as('bucket_start'),
+      count: count(),
+      min: sql<string | null>`MIN(${value})`,
+      max: sql<string | null>`MAX(${value})`,
+      avg: sql<string | null>`AVG(${value})`,
+      last: lastValue,
+    })
+    .from(serviceLogsTable)
+    .where(
+      and(
+        eq(serviceLogsTable.serviceId, serviceId),
+        gte(serviceLogsTable.recordedAt, from),
+        lt(serviceLogsTable.recordedAt, to),
+        isNull(serviceLogsTable.deletedAt),
+        sql`JSON_EXTRACT(${serviceLogsTable.data}, ${jsonPath}) IS NOT NULL`
+      )
+    )
+    .groupBy(sql`bucket_start`)
+    .orderBy(sql`bucket_start`);
+
+  return rows.map((row) => ({
+    bucket_start: new Date(Number(row.bucketStart) * 1000).toISOString(),
+    count: row.count,
+    min: toNumber(row.min),
+    max: toNumber(row.max),
+    avg: toNumber(row.avg),
+    last: toNumber(row.last),
+  }));
+}
+
+/**
+ * Regroup hourly or daily rollups of one metric into the requested buckets. Buckets smaller
+ * than the rollup resolution get one value per rollup.
+ */
+async function getRollupMetricBuckets(
+  serviceId: number,
+  resolution: LogRollupResolution,
+  metric: string,
+  from: Date,
+  to: Date,
+  bucketSeconds: number
+): Promise<MetricBucketValue[]> {
+  const rollups = await db
+    .select({ bucketStart: serviceLogRollupsTable.bucketStart, data: serviceLogRollupsTable.data })
+    .from(serviceLogRollupsTable)
+    .where(
+      and(
+        eq(serviceLogRollupsTable.serviceId, serviceId),
+        eq(serviceLogRollupsTable.resolution, resolution),
+        gte(serviceLogRollupsTable.bucketStart, from),
+        lt(serviceLogRollupsTable.bucketStart, to)
+      )
+    )
+    .orderBy(asc(serviceLogRollupsTable.bucketStart));
+
+  const buckets = new Map<number, MetricBucketValue>();
+
+  for (const rollup of rollups) {
+    const value = rollup.data[metric];
+    if (!value) {
+      continue;
+    }
+
+    const start = Math.floor(rollup.bucketStart.getTime() / 1000 / bucketSeconds) * bucketSeconds;
+    const bucket: MetricBucketValue = {
+      bucket_start: new Date(start * 1000).toISOString(),
+      count: value.count,
+      min: value.min,
+      max: value.max,
+      avg: value.sum / value.count,
+      last: value.last,
+    };
+    const existing = buckets.get(start);
+    buckets.set(start, existing ? mergeBuckets(existing, bucket) : bucket);
+  }
+
+  return [...buckets.values()];
+}
+
+// Combine two values of the same bucket; `newer` holds later data and supplies `last`
+function mergeBuckets(older: MetricBucketValue, newer: MetricBucketValue): MetricBucketValue {
+  const total = older.count + newer.count;
+  const sum = (older.avg ?? 0) * older.count + (newer.avg ?? 0) * newer.count;
+
+  return {
+    bucket_start: older.bucket_start,
+    count: total,
+    min: Math.min(older.min ?? Infinity, newer.min ?? Infinity),
+    max: Math.max(older.max ?? -Infinity, newer.max ?? -Infinity),
+    avg: total > 0 ? sum / total : null,
+    last: newer.last ?? older.last,
+  };
+}
+
+/**
+ * Get time-bucketed values of one metric. Ranges reaching past raw retention also read the
+ * hourly and daily rollups; each source holds a different period, so they're merged oldest
+ * first. Also returns the resolutions that contributed.
+ */
+export async function getMetricBuckets(
+  service: Service,
+  metric: string,
+  from: Date,
+  to: Date,
+  bucketSeconds: number
+) {
+  const cutoffs = getRetentionCutoffs(getRetentionPolicy(service));
+  const sources: [LogResolution, MetricBucketValue[]][] = [];
+
+  if (from < cutoffs.hourly) {
+    sources.push([
+      'daily',
+      await getRollupMetricBuckets(service.id, 'daily', metric, from, to, bucketSeconds),
+    ]);
+  }
+  if (from < cutoffs.raw) {
+    sources.push([
+      'hourly',
+      await getRollupMetricBuckets(service.id, 'hourly', metric, from, to, bucketSeconds),
+    ]);
+  }
+  sources.push(['raw', await getRawMetricBuckets(service.id, metric, from, to, bucketSeconds)]);
+
+  const buckets = new Map<string, MetricBucketValue>();
+
+  for (const [, values] of sources) {
+    for (const value of values) {
+      const existing = buckets.get(value.bucket_start);
+      buckets.set(value.bucket_start, existing ? mergeBuckets(existing, value) : value);
+    }
+  }
+
+  return {
+    resolutions: sources
+      .filter(([, values]) => values.length > 0)
+      .map(([resolution]) => resolution),
+    buckets: [...buckets.values()].sort((a, b) => a.bucket_start.localeCompare(b.bucket_start)),
+  };
+}
@@ -0,0 +1,58 @@
+import { and, desc, eq, gte, ne } from 'drizzle-orm';
+
+import { db } from '../db/database.js';
+import { userRefreshTokenTable } from '../db/schema/schema.js';
+
+// A session is a non-revoked, unexpired refresh token; the access token carries its id
+const activeSessionsOf = (userId: number) =>
+  and(
+    eq(userRefreshTokenTable.userId, userId),
+    eq(userRefreshTokenTable.isRevoked, 0),
+    gte(userRefreshTokenTable.expiresAt, new Date())
+  );
+
+export async function listActiveSessions(userId: number, currentSessionId?: string) {
+  const sessions = await db
+    .select({
+      id: userRefreshTokenTable.id,
+      deviceInfo: userRefreshTokenTable.deviceInfo,
+      createdAt: userRefreshTokenTable.createdAt,
+      lastUsedAt: userRefreshTokenTable.lastUsedAt,
+      expiresAt: userRefreshTokenTable.expiresAt,
+    })
+    .from(userRefreshTokenTable)
+    .where(activeSessionsOf(userId))
+    .orderBy(desc(userRefreshTokenTable.createdAt));
+
+  return sessions.map((session) => ({ ...session, current: session.id === currentSessionId }));
+}
+
+/**
+ * Revoke one of the user's sessions. Returns false when it doesn't exist or is already inactive.
+ */
+export async function revokeSession(userId: number, sessionId: string) {
+  const [result] = await db
+    .update(userRefreshTokenTable)
+    .set({ isRevoked: 1, revokedAt: new Date() })
+    .where(and(eq(userRefreshTokenTable.id, sessionId), activeSessionsOf(userId)));
+
+  return result.affectedRows > 0;
+}
+
+/**
+ * Revoke every active session of the user, optionally keeping one (the caller's own).
+ * Returns the number of sessions revoked.
+ */
+export async function revokeUserSessions(userId: number, exceptSessionId?: string) {
+  const [result] = await db
+    .update(userRefreshTokenTable)
+    .set({ isRevoked: 1, revokedAt: new Date() })
+    .where(
+      and(
+        activeSessionsOf(userId),
+        exceptSessionId ? ne(userRefreshTokenTable.id, exceptSessionId) : undefined
+      )
+    );
+
+  return result.affectedRows;
+}
@@ -0,0 +1,38 @@
+import { db } from '../db/database.js';
+import { appSettingsTable } from '../db/schema/schema.js';
+import { AppSettings, DEFAULT_APP_SETTINGS } from '../types/settings.type.js';
+
+// Settings are read on every login, so cache them briefly like role permissions
+const CACHE_TTL_MS = 60 * 1000;
+
+let cached: { settings: AppSettings; expiresAt: number } | null = null;
+
+export async function getAppSettings(): Promise<AppSettings> {
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.settings;
+  }
+
+  const rows = await db.select().from(appSettingsTable);
+  const settings = { ...DEFAULT_APP_SETTINGS };
+
+  for (const row of rows) {
+    if (row.key in settings) {
+      Object.assign(settings, { [row.key]: row.value });
+    }
+  }
+
+  cached = { settings, expiresAt: Date.now() + CACHE_TTL_MS };
+  return settings;
+}
+
+export async function updateAppSettings(changes: Partial<AppSettings>) {
+  for (const [key, value] of Object.entries(changes)) {
+    await db
+      .insert(appSettingsTable)
+      .values({ key, value })
+      .onDuplicateKeyUpdate({ set: { value, updatedAt: new Date() } });
+  }
+
+  cached = null;
+  return getAppSettings();
+}
@@ -0,0 +1,148 @@
+import crypto from 'crypto';
+import { and, eq, isNull, lt, or } from 'drizzle-orm';
+
+import { db } from '../db/database.js';
+import { userRecoveryCodesTable, usersTable } from '../db/schema/schema.js';
+import { decryptSecret, encryptSecret } from './encryption.js';
+import { buildOtpAuthUri, generateTotpSecret, verifyTotp } from './totp.js';
+
+const TOTP_ISSUER = 'Systrack';
+const RECOVERY_CODE_COUNT = 10;
+
+const hashRecoveryCode = (code: string) =>
+  crypto.createHash('sha256').update(code.replace(/-/g, '').toLowerCase()).digest('hex');
+
+async function getTwoFactorState(userId: number) {
+  const [user] = await db
+    .select({
+      totpSecret: usersTable.totpSecret,
+      totpEnabledAt: usersTable.totpEnabledAt,
+      totpLastUsedStep: usersTable.totpLastUsedStep,
+    })
+    .from(usersTable)
+    .where(eq(usersTable.id, userId));
+  return user;
+}
+
+export async function isTwoFactorEnabled(userId: number) {
+  const state = await getTwoFactorState(userId);
+  return Boolean(state?.totpEnabledAt);
+}
+
+/**
+ * Replace the user's recovery codes with a fresh set. The plain codes are only returned here.
+ */
+export async function regenerateRecoveryCodes(userId: number) {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  await db.delete(userRecoveryCodesTable).where(eq(userRecoveryCodesTable.userId, userId));
+  await db
+    .insert(userRecoveryCodesTable)
+    .values(codes.map((code) => ({ userId, codeHash: hashRecoveryCode(code) })));
+
+  return codes;
+}
+
+/**
+ * Start (or restart) enrollment with a new secret. 2FA stays off until the secret is confirmed.
+ */
+export async function startTotpEnrollment(userId: number, email: string) {
+  const secret = generateTotpSecret();
+
+  await db
+    .update(usersTable)
+    .set({ totpSecret: encryptSecret(secret), totpEnabledAt: null, totpLastUsedStep: null })
+    .where(eq(usersTable.id, userId));
+
+  return { secret, otpauthUri: buildOtpAuthUri(secret, email, TOTP_ISSUER) };
+}
+
+/**
+ * Confirm enrollment with a code from the authenticator app.
+ * Returns the new recovery codes, or null when the code is wrong or enrollment wasn't started.
+ */
+export async function confirmTotpEnrollment(userId: number, code: string) {
+  const state = await getTwoFactorState(userId);
+
+  if (!state?.totpSecret || state.totpEnabledAt) {
+    return null;
+  }
+
+  const step = verifyTotp(decryptSecret(state.totpSecret), code);
+  if (step === null) {
+    return null;
+  }
+
+  await db
+    .update(usersTable)
+    .set({ totpEnabledAt: new Date(), totpLastUsedStep: step })
+    .where(eq(usersTable.id, userId));
+
+  return regenerateRecoveryCodes(userId);
+}
+
+async function consumeRecoveryCode(userId: number, code: string) {
+  const [result] = await db
+    .update(userRecoveryCodesTable)
+    .set({ usedAt: new Date() })
+    .where(
+      and(
+        eq(userRecoveryCodesTable.userId, userId),
+        eq(userRecoveryCodesTable.codeHash, hashRecoveryCode(code)),
+        isNull(userRecoveryCodesTable.usedAt)
+      )
+    );
+
+  return result.affectedRows > 0;
+}
+
+/**
+ * Check a second factor: either a TOTP code, which can't be reused, or a one-time recovery code.
+ */
+export async function verifySecondFactor(
+  userId: number,
+  { code, recoveryCode }: { code?: string; recoveryCode?: string }
+) {
+  const state = await getTwoFactorState(userId);
+
+  if (!state?.totpSecret || !state.totpEnabledAt) {
+    return false;
+  }
+
+  if (recoveryCode) {
+    return consumeRecoveryCode(userId, recoveryCode);
+  }
+
+  if (!code) {
+    return false;
+  }
+
+  const step = verifyTotp(decryptSecret(state.totpSecret), code);
+  if (step === null) {
+    return false;
+  }
+
+  // Conditional, so of two concurrent requests with the same code only one is accepted
+  const [result] = await db
+    .update(usersTable)
+    .set({ totpLastUsedStep: step })
+    .where(
+      and(
+        eq(usersTable.id, userId),
+        or(isNull(usersTable.totpLastUsedStep), lt(usersTable.totpLastUsedStep, step))
+      )
+    );
+
+  return result.affectedRows > 0;
+}
+
+export async function disableTwoFactor(userId: number) {
+  await db
+    .update(usersTable)
+    .set({ totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null })
+    .where(eq(usersTable.id, userId));
+  await db.delete(userRecoveryCodesTable).where(eq(userRecoveryCodesTable.userId, userId));
+}
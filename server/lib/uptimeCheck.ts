@@ -0,0 +1,112 @@
+import { and, avg, count, eq, gte, sum } from 'drizzle-orm';
+
+import { db } from '../db/database.js';
+import { serviceCheckResultsTable } from '../db/schema/schema.js';
+import { Service } from './collectors/index.js';
+import env from './env.js';
+
+const timeoutMs = Number(env.UPTIME_CHECK_TIMEOUT_MS);
+
+export const UPTIME_WINDOWS = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+};
+
+export type UptimeWindow = keyof typeof UPTIME_WINDOWS;
+
+export type UptimeWindowSummary = {
+  total_checks: number;
+  up_checks: number;
+  uptime_percentage: number | null; // null when there are no checks in the window
+  avg_latency_ms: number | null;
+};
+
+// Services with a check in progress, so slow probes never overlap
+const checkingServiceIds = new Set<number>();
+
+export function isServiceChecking(serviceId: number) {
+  return checkingServiceIds.has(serviceId);
+}
+
+export function getCheckUrl(service: Service) {
+  return service.checkUrl ?? service.resStatusApiUrl;
+}
+
+/**
+ * Probe the service's check url once and store the result. Any 2xx or 3xx response counts as up.
+ */
+export async function runUptimeCheck(service: Service) {
+  const url = getCheckUrl(service);
+  const checkedAt = new Date();
+  const startedAt = performance.now();
+
+  let statusCode: number | null = null;
+  let error: string | null = null;
+
+  checkingServiceIds.add(service.id);
+  try {
+    const response = await fetch(url, {
+      method: 'GET',
+      redirect: 'manual',
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    statusCode = response.status;
+    await response.body?.cancel();
+  } catch (err) {
+    error = err instanceof Error ? `${err.name}: ${err.message}` : String(err);
+  } finally {
+    checkingServiceIds.delete(service.id);
+  }
+
+  const result = {
+    serviceId: service.id,
+    url,
+    isUp: statusCode !== null && statusCode >= 200 && statusCode < 400 ? 1 : 0,
+    statusCode,
+    latencyMs: Math.round(performance.now() - startedAt),
+    error,
+    checkedAt,
+  };
+
+  const [{ id }] = await db.insert(serviceCheckResultsTable).values(result).$returningId();
+
+  return { id, ...result };
+}
+
+/**
+ * Uptime percentage and average latency over the last 24 hours, 7 days and 30 days.
+ */
+export async function getUptimeSummary(serviceId: number) {
+  const now = Date.now();
+  const summary = {} as Record<UptimeWindow, UptimeWindowSummary>;
+
+  for (const [window, durationMs] of Object.entries(UPTIME_WINDOWS) as [UptimeWindow, number][]) {
+    const result = await db
+      .select({
+        total: count(),
+        up: sum(serviceCheckResultsTable.isUp),
+        avgLatency: avg(serviceCheckResultsTable.latencyMs),
+      })
+      .from(serviceCheckResultsTable)
+      .where(
+        and(
+          eq(serviceCheckResultsTable.serviceId, serviceId),
+          gte(serviceCheckResultsTable.checkedAt, new Date(now - durationMs))
+        )
+      );
+
+    const total = result[0].total;
+    const up = Number(result[0].up ?? 0);
+
+    summary[window] = {
+      total_checks: total,
+      up_checks: up,
+      uptime_percentage: total > 0 ? Math.round((up / total) * 10000) / 100 : null,
+      avg_latency_ms:
+        result[0].avgLatency !== null ? Math.round(Number(result[0].avgLatency)) : null,
+    };
+  }
+
+  return summary;
+}
@@ -1,11 +1,105 @@
-import { jwt } from 'hono/jwt';
+import { createMiddleware } from 'hono/factory';
+import { verify } from 'hono/jwt';
 
 import env from '../lib/env.js';
+import { logger } from '../lib/logger.js';
+import {
+  authenticatePersonalAccessToken,
+  PERSONAL_ACCESS_TOKEN_PREFIX,
+} from '../lib/personalAccessTokens.js';
+import { Permission } from '../types/permission.type.js';
 
 // JWT secret key
 const JWT_SECRET = env.JWT_SECRET;
 
+export type TokenType =
+  AuthPayload['type'] | MfaPendingPayload['type'] | PersonalTokenPayload['type'];
+
+/**
+ * Verify the bearer token and require one of the given token types, so short-lived
+ * MFA tokens can't be used where an access token is expected. Personal access tokens are
+ * only accepted where `personal` is listed, and requirePermission limits them to their scopes.
+ */
+export function tokenAuth(...types: TokenType[]) {
+  return createMiddleware(async (c, next) => {
+    const authorization = c.req.header('Authorization');
+
+    if (!authorization?.startsWith('Bearer ')) {
+      return c.json({ message: 'Unauthorized.' }, 401);
+    }
+
+    const token = authorization.slice(7);
+
+    if (token.startsWith(PERSONAL_ACCESS_TOKEN_PREFIX)) {
+      if (!types.includes('personal')) {
+        return c.json({ message: 'Unauthorized.' }, 401);
+      }
+
+      try {
+        const payload = await authenticatePersonalAccessToken(token);
+        if (!payload) {
+          return c.json({ message: 'Unauthorized.' }, 401);
+        }
+        c.set('jwtPayload', payload);
+      } catch (error) {
+        logger.error(`Error checking personal access token: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
+      }
+
+      return next();
+    }
+
+    try {
+      const payload = (await verify(token, JWT_SECRET, 'HS256')) as AuthPayload | MfaPendingPayload;
+
+      if (!types.includes(payload.type)) {
+        return c.json({ message: 'Unauthorized.' }, 401);
+      }
+
+      c.set('jwtPayload', payload);
+    } catch {
+      return c.json({ message: 'Unauthorized.' }, 401);
+    }
+
+    await next();
+  });
+}
+
 // Middleware to verify JWT
-const authMiddleware = jwt({ secret: JWT_SECRET });
+const authMiddleware = tokenAuth('access');
 
 export default authMiddleware;
+
+// For routes guarded by requirePermission, which scripts may call with personal access tokens
+export const scopedAuthMiddleware = tokenAuth('access', 'personal');
+
+// Claims carried by access tokens issued from generateAuthTokens
+export type AuthPayload = {
+  userId: number;
+  email: string;
+  role: string;
+  // Refresh token row the token was issued with; missing on tokens issued before sessions
+  sessionId?: string;
+  type: 'access';
+  exp: number;
+};
+
+// Claims of the token returned by a password login that still needs a second factor
+export type MfaPendingPayload = {
+  userId: number;
+  // Set when 2FA is required but the user hasn't enrolled yet
+  enrollment: boolean;
+  type: 'mfa_pending';
+  iat: number;
+  exp: number;
+};
+
+// Claims set for requests authenticated with a personal access token
+export type PersonalTokenPayload = {
+  userId: number;
+  email: string;
+  role: string;
+  tokenId: string;
+  scopes: Permission[];
+  type: 'personal';
+};
@@ -0,0 +1,48 @@
+import { Context } from 'hono';
+import { createMiddleware } from 'hono/factory';
+
+import { logger } from '../lib/logger.js';
+import { getRolePermissions } from '../lib/permissions.js';
+import { Permission } from '../types/permission.type.js';
+import { AuthPayload, PersonalTokenPayload } from './jwt.js';
+
+/**
+ * Whether the token's role has every listed permission. Personal access tokens also need every
+ * permission among their scopes. For checks that depend on the request, inside a handler.
+ */
+export async function hasPermissions(c: Context, ...permissions: Permission[]) {
+  const payload = c.get('jwtPayload') as AuthPayload | PersonalTokenPayload | undefined;
+
+  if (!payload?.role) {
+    return false;
+  }
+
+  if (
+    payload.type === 'personal' &&
+    !permissions.every((permission) => payload.scopes.includes(permission))
+  ) {
+    return false;
+  }
+
+  const granted = await getRolePermissions(payload.role);
+  return permissions.every((permission) => granted.has(permission));
+}
+
+/**
+ * Allow the request only when the token has every listed permission, see hasPermissions.
+ * Must run after authMiddleware.
+ */
+export function requirePermission(...permissions: Permission[]) {
+  return createMiddleware(async (c, next) => {
+    try {
+      if (!(await hasPermissions(c, ...permissions))) {
+        return c.json({ message: 'Forbidden.' }, 403);
+      }
+    } catch (error) {
+      logger.error(`Error checking permissions: ${error}`);
+      return c.json({ message: 'Internal server error.' }, 500);
+    }
+
+    await next();
+  });
+}
@@ -0,0 +1,105 @@
+import { Context } from 'hono';
+import { createMiddleware } from 'hono/factory';
+import { verify } from 'hono/jwt';
+
+import env from '../lib/env.js';
+import { logger } from '../lib/logger.js';
+import {
+  MemoryRateLimitStore,
+  MySqlRateLimitStore,
+  RateLimitStore,
+} from '../lib/rateLimitStore.js';
+import { getClientIP, SECURITY_CONFIG } from '../lib/security.js';
+import { AuthPayload } from './jwt.js';
+
+type RateLimitOptions = {
+  windowMs: number;
+  max: number;
+  // Namespaces the counters so different limits do not share a bucket
+  prefix: string;
+  keyGenerator?: (c: Context) => string | Promise<string>;
+};
+
+const rateLimitStore: RateLimitStore =
+  env.RATE_LIMIT_STORE === 'mysql' ? new MySqlRateLimitStore() : new MemoryRateLimitStore();
+
+const keyByIP = (c: Context) => `ip:${getClientIP(c)}`;
+
+// Push ingest path; the captured service id keys the counter
+const INGEST_PATH = /^\/api\/v1\/ingest\/(\d+)/;
+
+// Authenticated requests are counted per user so clients behind a shared IP don't starve each
+// other. Push agents use ingest tokens instead, and are counted per service for the same reason.
+async function keyByUserOrIP(c: Context) {
+  const ingest = INGEST_PATH.exec(c.req.path);
+  if (ingest) {
+    return `ingest:${ingest[1]}:${keyByIP(c)}`;
+  }
+
+  const authorization = c.req.header('Authorization');
+
+  if (authorization?.startsWith('Bearer ')) {
+    try {
+      const payload = (await verify(
+        authorization.slice(7),
+        env.JWT_SECRET,
+        'HS256'
+      )) as AuthPayload;
+      if (payload.userId) {
+        return `user:${payload.userId}`;
+      }
+    } catch {
+      // Invalid tokens are rejected later by authMiddleware; count them by IP
+    }
+  }
+
+  return keyByIP(c);
+}
+
+/**
+ * Fixed-window rate limiter. Adds X-RateLimit-* headers to every response and answers 429
+ * with Retry-After once the limit is exceeded. Fails open when the store is unavailable.
+ */
+export function rateLimit({ windowMs, max, prefix, keyGenerator = keyByIP }: RateLimitOptions) {
+  return createMiddleware(async (c, next) => {
+    if (env.RATE_LIMIT_ENABLED === 'false') {
+      return next();
+    }
+
+    let hit;
+    try {
+      const key = await keyGenerator(c);
+      hit = await rateLimitStore.increment(`${prefix}:${key}`, windowMs);
+    } catch (error) {
+      logger.error(`Error checking rate limit: ${error}`);
+      return next();
+    }
+
+    const resetSeconds = Math.max(0, Math.ceil((hit.resetAt.getTime() - Date.now()) / 1000));
+
+    c.header('X-RateLimit-Limit', String(max));
+    c.header('X-RateLimit-Remaining', String(Math.max(0, max - hit.count)));
+    c.header('X-RateLimit-Reset', String(Math.ceil(hit.resetAt.getTime() / 1000)));
+
+    if (hit.count > max) {
+      c.header('Retry-After', String(resetSeconds));
+      return c.json({ message: 'Too many requests. Please try again later.' }, 429);
+    }
+
+    await next();
+  });
+}
+
+// For form submissions such as login, counted separately for each form
+export const formRateLimit = rateLimit({
+  ...SECURITY_CONFIG.FORM_RATE_LIMIT,
+  prefix: 'form',
+  keyGenerator: (c) => `${c.req.path}:${keyByIP(c)}`,
+});
+
+// For every /api/v1 request
+export const apiRateLimit = rateLimit({
+  ...SECURITY_CONFIG.API_RATE_LIMIT,
+  prefix: 'api',
+  keyGenerator: keyByUserOrIP,
+});
@@ -0,0 +1,182 @@
+import { Context } from 'hono';
+import { createMiddleware } from 'hono/factory';
+
+import { logger } from '../lib/logger.js';
+import {
+  containsSuspiciousPatterns,
+  getClientIP,
+  isBlockedUserAgent,
+  sanitizeText,
+  SECURITY_CONFIG,
+} from '../lib/security.js';
+import { recordSecurityEvent } from '../lib/securityEvents.js';
+import { ScreeningRule } from '../types/security.type.js';
+
+type Finding = {
+  rule: ScreeningRule;
+  location: 'user-agent' | 'query' | 'body';
+  field?: string;
+  sample: string;
+};
+
+const { SCREENING } = SECURITY_CONFIG;
+
+const matchesPrefix = (path: string, prefix: string) =>
+  path === prefix || path.startsWith(`${prefix}/`);
+
+function isAllowlisted(c: Context, rule: ScreeningRule) {
+  const allowlist = SCREENING.ALLOWLISTS[rule];
+  const userAgent = (c.req.header('User-Agent') || '').toLowerCase();
+
+  return (
+    allowlist.ips.includes(getClientIP(c)) ||
+    allowlist.userAgents.some((allowed) => userAgent.includes(allowed.toLowerCase())) ||
+    allowlist.paths.some((prefix) => matchesPrefix(c.req.path, prefix))
+  );
+}
+
+// Walk a parsed JSON body and return the first string key or value matching a pattern
+function findInValue(value: unknown, field = ''): { field: string; value: string } | null {
+  if (typeof value === 'string') {
+    return containsSuspiciousPatterns(value) ? { field, value } : null;
+  }
+  if (value === null || typeof value !== 'object') {
+    return null;
+  }
+
+  for (const [key, child] of Object.entries(value)) {
+    if (SCREENING.SKIPPED_FIELDS.includes(key)) {
+      continue;
+    }
+    const childField = field ? `${field}.${key}` : key;
+    if (containsSuspiciousPatterns(key)) {
+      return { field: childField, value: key };
+    }
+    const found = findInValue(child, childField);
+    if (found) {
+      return found;
+    }
+  }
+
+  return null;
+}
+
+async function findInBody(c: Context) {
+  const contentType = c.req.header('Content-Type') || '';
+  const contentLength = Number(c.req.header('Content-Length') || 0);
+
+  if (
+    !['POST', 'PUT', 'PATCH'].includes(c.req.method) ||
+    contentLength > SCREENING.MAX_BODY_BYTES
+  ) {
+    return null;
+  }
+
+  // Hono caches the body, so reading it here doesn't consume it for the route handler
+  const body = await c.req.text();
+  if (body.length === 0 || body.length > SCREENING.MAX_BODY_BYTES) {
+    return null;
+  }
+
+  if (contentType.includes('application/json')) {
+    try {
+      return findInValue(JSON.parse(body));
+    } catch {
+      // Malformed JSON is rejected by the validators; scan it as plain text instead
+    }
+  }
+
+  if (contentType.includes('application/x-www-form-urlencoded')) {
+    return findInValue(Object.fromEntries(new URLSearchParams(body)));
+  }
+
+  if (contentType.includes('multipart/form-data')) {
+    return null;
+  }
+
+  return containsSuspiciousPatterns(body) ? { field: '', value: body } : null;
+}
+
+const toMatch = ({ field, value }: { field: string; value: string }) => ({
+  field: field || undefined,
+  sample: value,
+});
+
+async function screenRequest(c: Context): Promise<Finding[]> {
+  const findings: Finding[] = [];
+  const userAgent = c.req.header('User-Agent') || '';
+
+  if (userAgent && isBlockedUserAgent(userAgent) && !isAllowlisted(c, 'blocked_user_agent')) {
+    findings.push({ rule: 'blocked_user_agent', location: 'user-agent', sample: userAgent });
+  }
+
+  if (isAllowlisted(c, 'suspicious_pattern')) {
+    return findings;
+  }
+
+  const query = findInValue(c.req.queries());
+  if (query) {
+    findings.push({ rule: 'suspicious_pattern', location: 'query', ...toMatch(query) });
+  }
+
+  const body = await findInBody(c);
+  if (body) {
+    findings.push({ rule: 'suspicious_pattern', location: 'body', ...toMatch(body) });
+  }
+
+  return findings;
+}
+
+/**
+ * Screen user agents, query strings and request bodies against the suspicious pattern and
+ * blocked user agent lists. Each route group in SECURITY_CONFIG.SCREENING runs in its own
+ * mode: `log` records matches as security events, `block` also rejects the request with 403.
+ */
+export const requestScreening = createMiddleware(async (c, next) => {
+  const group = SCREENING.ROUTE_GROUPS.find((routeGroup) =>
+    matchesPrefix(c.req.path, routeGroup.prefix)
+  );
+
+  if (!group || group.mode === 'off') {
+    return next();
+  }
+
+  let findings: Finding[];
+  try {
+    findings = await screenRequest(c);
+  } catch (error) {
+    logger.error(`Error screening request: ${error}`);
+    return next();
+  }
+
+  if (findings.length === 0) {
+    return next();
+  }
+
+  const blocked = group.mode === 'block';
+
+  for (const finding of findings) {
+    logger.warn(
+      `Request screening (${group.name}, ${group.mode}) matched ${finding.rule} in ` +
+        `${finding.location} from ${getClientIP(c)}: ${c.req.method} ${c.req.path}`
+    );
+    recordSecurityEvent(
+      c,
+      finding.rule,
+      {
+        group: group.name,
+        mode: group.mode,
+        location: finding.location,
+        field: finding.field ?? null,
+        sample: sanitizeText(finding.sample).substring(0, 200),
+      },
+      blocked
+    );
+  }
+
+  if (blocked) {
+    return c.json({ message: 'Request blocked.' }, 403);
+  }
+
+  await next();
+});
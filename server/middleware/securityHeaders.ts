@@ -0,0 +1,59 @@
+import crypto from 'crypto';
+import { createMiddleware } from 'hono/factory';
+
+import env from '../lib/env.js';
+import { SECURITY_CONFIG } from '../lib/security.js';
+
+declare module 'hono' {
+  interface ContextVariableMap {
+    cspNonce: string;
+  }
+}
+
+// defaultSrc -> default-src
+const toDirectiveName = (key: string) => key.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`);
+
+/**
+ * Build the Content-Security-Policy value from SECURITY_CONFIG.CSP, allowing scripts
+ * carrying the request's nonce.
+ */
+export function buildContentSecurityPolicy(nonce: string) {
+  const directives = Object.entries(SECURITY_CONFIG.CSP).map(([key, sources]) => {
+    const values = key === 'scriptSrc' ? [...sources, `'nonce-${nonce}'`] : sources;
+    return `${toDirectiveName(key)} ${values.join(' ')}`;
+  });
+
+  directives.push(`report-uri ${SECURITY_CONFIG.CSP_REPORT_PATH}`, 'report-to csp-endpoint');
+
+  return directives.join('; ');
+}
+
+/**
+ * Set the CSP and the other security response headers. A fresh nonce is generated per request
+ * and exposed as `c.get('cspNonce')` for pages that render inline scripts.
+ */
+export const securityHeaders = createMiddleware(async (c, next) => {
+  const nonce = crypto.randomBytes(16).toString('base64');
+  c.set('cspNonce', nonce);
+
+  await next();
+
+  const cspHeader =
+    env.CSP_REPORT_ONLY === 'true'
+      ? 'Content-Security-Policy-Report-Only'
+      : 'Content-Security-Policy';
+
+  c.header(cspHeader, buildContentSecurityPolicy(nonce));
+  c.header('Reporting-Endpoints', `csp-endpoint="${SECURITY_CONFIG.CSP_REPORT_PATH}"`);
+  c.header('X-Frame-Options', SECURITY_CONFIG.FRAME_OPTIONS);
+  c.header('X-Content-Type-Options', 'nosniff');
+  c.header('Referrer-Policy', SECURITY_CONFIG.REFERRER_POLICY);
+  c.header('Permissions-Policy', SECURITY_CONFIG.PERMISSIONS_POLICY.join(', '));
+
+  if (env.NODE_ENV === 'production') {
+    c.header(
+      'Strict-Transport-Security',
+      `max-age=${SECURITY_CONFIG.HSTS_MAX_AGE}; includeSubDomains`
+    );
+  }
+});
@@ -0,0 +1,109 @@
+import { zValidator } from '@hono/zod-validator';
+import { and, asc, count, desc, eq, SQL } from 'drizzle-orm';
+import { Hono } from 'hono';
+import { z } from 'zod';
+
+import { db } from '../db/database.js';
+import { alertRulesTable, alertsTable, servicesTable } from '../db/schema/schema.js';
+import { logger } from '../lib/logger.js';
+import {
+  createPaginationResponse,
+  getPaginationParams,
+  paginationSchema,
+} from '../lib/pagination.js';
+import { scopedAuthMiddleware } from '../middleware/jwt.js';
+import { requirePermission } from '../middleware/permission.js';
+import { PERMISSIONS } from '../types/permission.type.js';
+
+const alertListSchema = paginationSchema.extend({
+  status: z
+    .string()
+    .optional()
+    .transform((val) => (val !== undefined ? parseInt(val, 10) : undefined))
+    .pipe(z.number().int().min(0).max(1).optional()),
+  service_id: z
+    .string()
+    .optional()
+    .transform((val) => (val !== undefined ? parseInt(val, 10) : undefined))
+    .pipe(z.number().int().positive().optional()),
+  rule_id: z
+    .string()
+    .optional()
+    .transform((val) => (val !== undefined ? parseInt(val, 10) : undefined))
+    .pipe(z.number().int().positive().optional()),
+});
+
+// for listing firing and resolved alerts
+export const alertRoute = new Hono()
+  .use(scopedAuthMiddleware)
+  .get(
+    '/',
+    requirePermission(PERMISSIONS.ALERTS_READ),
+    zValidator('query', alertListSchema),
+    async (c) => {
+      try {
+        const { page, limit, sort_by, order, status, service_id, rule_id } = c.req.valid('query');
+        const { offset } = getPaginationParams(page, limit);
+
+        // Build where clause
+        const conditions: SQL[] = [];
+        if (status !== undefined) {
+          conditions.push(eq(alertsTable.status, status));
+        }
+        if (service_id !== undefined) {
+          conditions.push(eq(alertsTable.serviceId, service_id));
+        }
+        if (rule_id !== undefined) {
+          conditions.push(eq(alertsTable.ruleId, rule_id));
+        }
+        const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+
+        // Get total count of alerts
+        const totalResult = await db
+          .select({ count: count() })
+          .from(alertsTable)
+          .where(whereClause);
+
+        const total = totalResult[0].count;
+
+        // Build order by clause
+        const orderBy =
+          order === 'desc'
+            ? desc(alertsTable[sort_by as keyof typeof alertsTable.$inferSelect])
+            : asc(alertsTable[sort_by as keyof typeof alertsTable.$inferSelect]);
+
+        // Get paginated alerts with their rule and service names
+        const alerts = await db
+          .select({
+            id: alertsTable.id,
+            ruleId: alertsTable.ruleId,
+            ruleName: alertRulesTable.name,
+            metricPath: alertRulesTable.metricPath,
+            comparator: alertRulesTable.comparator,
+            threshold: alertRulesTable.threshold,
+            serviceId: alertsTable.serviceId,
+            serviceName: servicesTable.name,
+            status: alertsTable.status,
+            value: alertsTable.value,
+            firedAt: alertsTable.firedAt,
+            resolvedAt: alertsTable.resolvedAt,
+            createdAt: alertsTable.createdAt,
+            updatedAt: alertsTable.updatedAt,
+          })
+          .from(alertsTable)
+          .innerJoin(alertRulesTable, eq(alertsTable.ruleId, alertRulesTable.id))
+          .innerJoin(servicesTable, eq(alertsTable.serviceId, servicesTable.id))
+          .where(whereClause)
+          .orderBy(orderBy)
+          .limit(limit)
+          .offset(offset);
+
+        const response = createPaginationResponse(alerts, total, page, limit, '', sort_by, order);
+
+        return c.json(response);
+      } catch (error) {
+        logger.error(`Error fetching alerts: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
+      }
+    }
+  );
@@ -0,0 +1,311 @@
+import { zValidator } from '@hono/zod-validator';
+import { and, asc, count, desc, eq, isNull, like } from 'drizzle-orm';
+import { Hono } from 'hono';
+import { z } from 'zod';
+
+import { db } from '../db/database.js';
+import { alertRulesTable, servicesTable } from '../db/schema/schema.js';
+import { logger } from '../lib/logger.js';
+import {
+  createPaginationResponse,
+  getPaginationParams,
+  paginationSchema,
+} from '../lib/pagination.js';
+import { scopedAuthMiddleware } from '../middleware/jwt.js';
+import { requirePermission } from '../middleware/permission.js';
+import { ALERT_COMPARATORS } from '../types/alert.type.js';
+import { PERMISSIONS } from '../types/permission.type.js';
+
+// Validation schemas
+const alertRuleFields = {
+  name: z.string().min(3, 'Name must be at least 3 characters'),
+  serviceId: z.number().int().positive().nullable(),
+  serviceType: z
+    .number()
+    .int()
+    .min(1)
+    .max(3, 'Service type must be between 1-3 (1: server, 2: vps, 3: shared hosting)')
+    .nullable(),
+  metricPath: z
+    .string()
+    .min(1, 'Metric path is required')
+    .regex(/^[A-Za-z0-9_]+(\.[A-Za-z0-9_]+)*$/, 'Metric path must be a dotted path'),
+  comparator: z.enum(ALERT_COMPARATORS),
+  threshold: z.number(),
+  durationSeconds: z.number().int().min(0).max(604800, 'Duration cannot exceed 7 days'),
+  status: z.number().int().min(0).max(1, 'Status must be 0 or 1 (0: inactive, 1: active)'),
+};
+
+const createAlertRuleSchema = z
+  .object({
+    ...alertRuleFields,
+    serviceId: alertRuleFields.serviceId.optional(),
+    serviceType: alertRuleFields.serviceType.optional(),
+    durationSeconds: alertRuleFields.durationSeconds.optional(),
+    status: alertRuleFields.status.optional(),
+  })
+  .refine((data) => (data.serviceId == null) !== (data.serviceType == null), {
+    message: 'Either serviceId or serviceType must be set, but not both',
+    path: ['serviceId'],
+  });
+
+const updateAlertRuleSchema = z.object(alertRuleFields).partial();
+
+const alertRuleIdSchema = z.object({
+  id: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number().int().positive()),
+});
+
+async function serviceExists(id: number) {
+  const service = await db
+    .select({ id: servicesTable.id })
+    .from(servicesTable)
+    .where(and(eq(servicesTable.id, id), isNull(servicesTable.deletedAt)));
+  return service.length > 0;
+}
+
+// for alert rule management CRUD
+export const alertRuleRoute = new Hono()
+  .use(scopedAuthMiddleware)
+  // Create alert rule
+  .post(
+    '/',
+    requirePermission(PERMISSIONS.ALERTS_WRITE),
+    zValidator('json', createAlertRuleSchema),
+    async (c) => {
+      try {
+        const {
+          name,
+          serviceId = null,
+          serviceType = null,
+          metricPath,
+          comparator,
+          threshold,
+          durationSeconds = 0,
+          status = 1,
+        } = c.req.valid('json');
+
+        if (serviceId !== null && !(await serviceExists(serviceId))) {
+          return c.json({ message: 'Service not found.' }, 404);
+        }
+
+        const [{ id }] = await db
+          .insert(alertRulesTable)
+          .values({
+            name,
+            serviceId,
+            serviceType,
+            metricPath,
+            comparator,
+            threshold,
+            durationSeconds,
+            status,
+          })
+          .$returningId();
+
+        const newRule = await db.select().from(alertRulesTable).where(eq(alertRulesTable.id, id));
+
+        if (!newRule[0]) {
+          return c.json({ message: 'Failed to create alert rule.' }, 500);
+        }
+
+        return c.json(
+          {
+            success: true,
+            message: 'Alert rule created successfully.',
+            data: newRule[0],
+          },
+          201
+        );
+      } catch (error) {
+        logger.error(`Error creating alert rule: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
+      }
+    }
+  )
+  // Get all alert rules with pagination, search, and sorting
+  .get(
+    '/',
+    requirePermission(PERMISSIONS.ALERTS_READ),
+    zValidator('query', paginationSchema),
+    async (c) => {
+      try {
+        const { page, limit, search, sort_by, order } = c.req.valid('query');
+        const { offset } = getPaginationParams(page, limit);
+
+        // Build where clause
+        const whereClause = search
+          ? and(isNull(alertRulesTable.deletedAt), like(alertRulesTable.name, `%${search}%`))
+          : isNull(alertRulesTable.deletedAt);
+
+        // Get total count of alert rules
+        const totalResult = await db
+          .select({ count: count() })
+          .from(alertRulesTable)
+          .where(whereClause);
+
+        const total = totalResult[0].count;
+
+        // Build order by clause
+        const orderBy =
+          order === 'desc'
+            ? desc(alertRulesTable[sort_by as keyof typeof alertRulesTable.$inferSelect])
+            : asc(alertRulesTable[sort_by as keyof typeof alertRulesTable.$inferSelect]);
+
+        // Get paginated alert rules
+        const rules = await db
+          .select()
+          .from(alertRulesTable)
+          .where(whereClause)
+          .orderBy(orderBy)
+          .limit(limit)
+          .offset(offset);
+
+        const response = createPaginationResponse(
+          rules,
+          total,
+          page,
+          limit,
+          search || '',
+          sort_by,
+          order
+        );
+
+        return c.json(response);
+      } catch (error) {
+        logger.error(`Error fetching alert rules: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
+      }
+    }
+  )
+  // Get alert rule by ID
+  .get(
+    '/:id',
+    requirePermission(PERMISSIONS.ALERTS_READ),
+    zValidator('param', alertRuleIdSchema),
+    async (c) => {
+      try {
+        const { id } = c.req.valid('param');
+
+        const rule = await db
+          .select()
+          .from(alertRulesTable)
+          .where(and(eq(alertRulesTable.id, id), isNull(alertRulesTable.deletedAt)));
+
+        if (rule.length === 0) {
+          return c.json({ message: 'Alert rule not found.' }, 404);
+        }
+
+        return c.json({
+          success: true,
+          data: rule[0],
+        });
+      } catch (error) {
+        logger.error(`Error fetching alert rule: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
+      }
+    }
+  )
+  // Update alert rule
+  .put(
+    '/:id',
+    requirePermission(PERMISSIONS.ALERTS_WRITE),
+    zValidator('param', alertRuleIdSchema),
+    zValidator('json', updateAlertRuleSchema),
+    async (c) => {
+      try {
+        const { id } = c.req.valid('param');
+        const updateData = c.req.valid('json');
+
+        // Check if alert rule exists
+        const existingRule = await db
+          .select()
+          .from(alertRulesTable)
+          .where(and(eq(alertRulesTable.id, id), isNull(alertRulesTable.deletedAt)));
+
+        if (existingRule.length === 0) {
+          return c.json({ message: 'Alert rule not found.' }, 404);
+        }
+
+        // Make sure the rule still targets exactly one service or service type
+        const serviceId =
+          updateData.serviceId !== undefined ? updateData.serviceId : existingRule[0].serviceId;
+        const serviceType =
+          updateData.serviceType !== undefined
+            ? updateData.serviceType
+            : existingRule[0].serviceType;
+
+        if ((serviceId === null) === (serviceType === null)) {
+          return c.json(
+            { message: 'Either serviceId or serviceType must be set, but not both.' },
+            400
+          );
+        }
+
+        if (serviceId !== null && !(await serviceExists(serviceId))) {
+          return c.json({ message: 'Service not found.' }, 404);
+        }
+
+        await db
+          .update(alertRulesTable)
+          .set({ ...updateData, updatedAt: new Date() })
+          .where(eq(alertRulesTable.id, id));
+
+        const updatedRule = await db
+          .select()
+          .from(alertRulesTable)
+          .where(eq(alertRulesTable.id, id));
+
+        if (updatedRule.length === 0) {
+          return c.json({ message: 'Failed to update alert rule.' }, 500);
+        }
+
+        return c.json({
+          success: true,
+          message: 'Alert rule updated successfully.',
+          data: updatedRule[0],
+        });
+      } catch (error) {
+        logger.error(`Error updating alert rule: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
+      }
+    }
+  )
+  // Delete alert rule (soft delete)
+  .delete(
+    '/:id',
+    requirePermission(PERMISSIONS.ALERTS_WRITE),
+    zValidator('param', alertRuleIdSchema),
+    async (c) => {
+      try {
+        const { id } = c.req.valid('param');
+
+        const existingRule = await db
+          .select()
+          .from(alertRulesTable)
+          .where(and(eq(alertRulesTable.id, id), isNull(alertRulesTable.deletedAt)));
+
+        if (existingRule.length === 0) {
+          return c.json({ message: 'Alert rule not found.' }, 404);
+        }
+
+        await db
+          .update(alertRulesTable)
+          .set({
+            deletedAt: new Date(),
+            updatedAt: new Date(),
+          })
+          .where(eq(alertRulesTable.id, id));
+
+        return c.json({
+          success: true,
+          message: 'Alert rule deleted successfully.',
+        });
+      } catch (error) {
+        logger.error(`Error deleting alert rule: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
+      }
+    }
+  );
@@ -0,0 +1,110 @@
+import { zValidator } from '@hono/zod-validator';
+import { and, asc, count, desc, eq, like, or } from 'drizzle-orm';
+import { Hono } from 'hono';
+
+import { db } from '../db/database.js';
+import { auditLogsTable, usersTable } from '../db/schema/schema.js';
+import { FilterWhitelist, parseFilter } from '../lib/filter.js';
+import { logger } from '../lib/logger.js';
+import {
+  createPaginationResponse,
+  getPaginationParams,
+  paginationSchema,
+} from '../lib/pagination.js';
+import { scopedAuthMiddleware } from '../middleware/jwt.js';
+import { requirePermission } from '../middleware/permission.js';
+import { PERMISSIONS } from '../types/permission.type.js';
+
+// Columns allowed in the filter query parameter
+const auditLogFilterWhitelist: FilterWhitelist = {
+  id: { column: auditLogsTable.id, type: 'number' },
+  actorId: { column: auditLogsTable.actorId, type: 'number' },
+  action: { column: auditLogsTable.action, type: 'string' },
+  entityType: { column: auditLogsTable.entityType, type: 'string' },
+  entityId: { column: auditLogsTable.entityId, type: 'number' },
+  ip: { column: auditLogsTable.ip, type: 'string' },
+  createdAt: { column: auditLogsTable.createdAt, type: 'date' },
+};
+
+// for reading the audit trail of changes to users and services
+export const auditLogRoute = new Hono()
+  .use(scopedAuthMiddleware)
+  .get(
+    '/',
+    requirePermission(PERMISSIONS.AUDIT_READ),
+    zValidator('query', paginationSchema),
+    async (c) => {
+      try {
+        const { page, limit, search, sort_by, order, filter } = c.req.valid('query');
+        const { offset } = getPaginationParams(page, limit);
+
+        // Parse filter conditions
+        const parsedFilter = parseFilter(filter, auditLogFilterWhitelist);
+
+        if (!parsedFilter.success) {
+          return c.json({ message: parsedFilter.message }, 400);
+        }
+
+        // Build search conditions on the actor
+        const searchConditions = search
+          ? or(like(usersTable.name, `%${search}%`), like(usersTable.email, `%${search}%`))
+          : undefined;
+
+        // Build where clause
+        const whereClause = and(searchConditions, ...parsedFilter.conditions);
+
+        // Get total count of audit logs
+        const totalResult = await db
+          .select({ count: count() })
+          .from(auditLogsTable)
+          .leftJoin(usersTable, eq(auditLogsTable.actorId, usersTable.id))
+          .where(whereClause);
+
+        const total = totalResult[0].count;
+
+        // Build order by clause
+        const orderBy =
+          order === 'desc'
+            ? desc(auditLogsTable[sort_by as keyof typeof auditLogsTable.$inferSelect])
+            : asc(auditLogsTable[sort_by as keyof typeof auditLogsTable.$inferSelect]);
+
+        // Get paginated audit logs with the actor's name and email
+        const auditLogs = await db
+          .select({
+            id: auditLogsTable.id,
+            actorId: auditLogsTable.actorId,
+            actorName: usersTable.name,
+            actorEmail: usersTable.email,
+            action: auditLogsTable.action,
+            entityType: auditLogsTable.entityType,
+            entityId: auditLogsTable.entityId,
+            changes: auditLogsTable.changes,
+            ip: auditLogsTable.ip,
+            userAgent: auditLogsTable.userAgent,
+            createdAt: auditLogsTable.createdAt,
+          })
+          .from(auditLogsTable)
+          .leftJoin(usersTable, eq(auditLogsTable.actorId, usersTable.id))
+          .where(whereClause)
+          .orderBy(orderBy)
+          .limit(limit)
+          .offset(offset);
+
+        const response = createPaginationResponse(
+          auditLogs,
+          total,
+          page,
+          limit,
+          search || '',
+          sort_by,
+          order,
+          parsedFilter.appliedFilters
+        );
+
+        return c.json(response);
+      } catch (error) {
+        logger.error(`Error fetching audit logs: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
+      }
+    }
+  );
@@ -1,23 +1,50 @@
 import { zValidator } from '@hono/zod-validator';
-import bcrypt from 'bcryptjs';
-import crypto from 'crypto';
-import { and, count, eq, gte } from 'drizzle-orm';
-import { Hono } from 'hono';
+import { and, count, eq, isNull } from 'drizzle-orm';
+import { Context, Hono } from 'hono';
 import { deleteCookie } from 'hono/cookie';
 import { sign } from 'hono/jwt';
 import { z } from 'zod';
 
 import { db } from '../db/database.js';
 import { userRefreshTokenTable, usersTable } from '../db/schema/schema.js';
+import { recordAuditLog } from '../lib/auditLog.js';
 import env from '../lib/env.js';
 import { logger } from '../lib/logger.js';
-import { verifyTurnstileToken } from '../lib/security.js';
-import authMiddleware from '../middleware/jwt.js';
+import {
+  checkLoginAllowed,
+  countLoginFailuresSince,
+  recordLoginAttempt,
+  waitForLoginDelay,
+} from '../lib/loginThrottle.js';
+import { sendMail } from '../lib/mailer.js';
+import { hashPassword, needsRehash, verifyPassword } from '../lib/password.js';
+import { consumePasswordResetToken, createPasswordResetToken } from '../lib/passwordReset.js';
+import { getRoleName } from '../lib/permissions.js';
+import {
+  checkRefreshToken,
+  createRefreshToken,
+  findActiveRefreshToken,
+  revokeRefreshToken,
+  revokeRefreshTokenFamily,
+} from '../lib/refreshTokens.js';
+import { getClientIP, SECURITY_CONFIG, verifyTurnstileToken } from '../lib/security.js';
+import { recordSecurityEvent } from '../lib/securityEvents.js';
+import { listActiveSessions, revokeSession, revokeUserSessions } from '../lib/sessions.js';
+import { getAppSettings } from '../lib/settings.js';
+import {
+  confirmTotpEnrollment,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  startTotpEnrollment,
+  verifySecondFactor,
+} from '../lib/twoFactor.js';
+import authMiddleware, { AuthPayload, MfaPendingPayload, tokenAuth } from '../middleware/jwt.js';
+import { formRateLimit } from '../middleware/rateLimit.js';
+import { ROLE } from '../types/permission.type.js';
 
 // JWT secret key
 const JWT_SECRET = env.JWT_SECRET;
 const environtment = env.NODE_ENV;
-const hashSalt = env.HASH_SALT;
 
 const userSchemaZod = z.object({
   id: z.number().int().positive(),
@@ -31,35 +58,85 @@ const loginWithTurnstileSchema = loginSchema.extend({
   turnstileToken: z.string().min(1, 'TurnstileToken token is required'),
 });
 
+const forgotPasswordSchema = z.object({
+  email: z.email('Invalid email format'),
+  turnstileToken: z.string().min(1, 'TurnstileToken token is required'),
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Reset token is required'),
+  password: z.string().min(6, 'Password must be at least 6 characters'),
+  turnstileToken: z.string().min(1, 'TurnstileToken token is required'),
+});
+
+const mfaCodeSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, 'Code must be 6 digits'),
+});
+
+const mfaVerifySchema = z
+  .object({
+    code: mfaCodeSchema.shape.code.optional(),
+    recoveryCode: z.string().min(1).optional(),
+  })
+  .refine((data) => Boolean(data.code) !== Boolean(data.recoveryCode), {
+    message: 'Either code or recoveryCode is required',
+    path: ['code'],
+  });
+
+const mfaDisableSchema = z
+  .object({
+    password: z.string().min(1, 'Password is required'),
+    code: mfaCodeSchema.shape.code.optional(),
+    recoveryCode: z.string().min(1).optional(),
+  })
+  .refine((data) => Boolean(data.code) !== Boolean(data.recoveryCode), {
+    message: 'Either code or recoveryCode is required',
+    path: ['code'],
+  });
+
+const sessionIdSchema = z.object({
+  id: z.uuid('Invalid session id'),
+});
+
 export type User = z.infer<typeof userSchemaZod>;
 
-async function generateAuthTokens(user: { id: number; email: string }, deviceInfo?: string) {
+async function generateAuthTokens(
+  user: { id: number; email: string; roleId: number },
+  deviceInfo?: string,
+  // Token being rotated; the new token joins its family and keeps the session start time
+  parentToken?: typeof userRefreshTokenTable.$inferSelect
+) {
   // Access token - short lived (15-30 minutes)
   const accessTokenExpiredAt = Math.floor(Date.now() / 1000) + 30 * 60; // 30 minutes
 
   // Refresh token - long lived (7-30 days)
   const refreshTokenExpiredAt = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000); // 30 days
 
+  // Refresh token selector, doubles as the session id
+  const { id: sessionId, token: refreshToken, tokenHash } = createRefreshToken();
+
   const accessToken = await sign(
     {
       userId: user.id,
       email: user.email,
+      role: await getRoleName(user.roleId),
+      sessionId,
       type: 'access',
       exp: accessTokenExpiredAt,
     },
     JWT_SECRET
   );
 
-  // Generate secure refresh token
-  const refreshToken = crypto.randomUUID() + '-' + crypto.randomBytes(32).toString('hex');
-
   // Store refresh token in database
   await db.insert(userRefreshTokenTable).values({
-    id: crypto.randomUUID(),
+    id: sessionId,
     userId: user.id,
-    token: await bcrypt.hash(refreshToken, hashSalt ?? 'salt'), // Hash the refresh token
+    token: tokenHash,
     expiresAt: refreshTokenExpiredAt,
-    createdAt: new Date(),
+    familyId: parentToken?.familyId ?? sessionId,
+    parentId: parentToken?.id ?? null,
+    lastUsedAt: parentToken ? new Date() : null,
+    createdAt: parentToken?.createdAt ?? new Date(),
     isRevoked: 0,
     deviceInfo: deviceInfo || 'unknown',
   });
@@ -72,11 +149,86 @@ async function generateAuthTokens(user: { id: number; email: string }, deviceInf
   };
 }
 
+// Short-lived token proving the password was correct, exchanged at /mfa/verify or /mfa/confirm
+async function generateMfaPendingToken(userId: number, enrollment: boolean) {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const mfaTokenExpiredAt = issuedAt + 5 * 60; // 5 minutes
+
+  // iat lets /mfa/verify count the failed codes entered since this token was issued
+  const mfaToken = await sign(
+    { userId, enrollment, type: 'mfa_pending', iat: issuedAt, exp: mfaTokenExpiredAt },
+    JWT_SECRET
+  );
+
+  return {
+    mfaRequired: true,
+    mfaEnrollmentRequired: enrollment,
+    mfaToken,
+    mfaTokenExpiredAt: new Date(mfaTokenExpiredAt * 1000).toISOString(),
+  };
+}
+
+type SecondFactorCheck =
+  { status: 'valid' } | { status: 'invalid' } | { status: 'throttled'; retryAfterSeconds: number };
+
+/**
+ * Run a second factor (or password) check through the login throttle: refused while the
+ * account is locked or the IP is over the limit, and failures count towards the lockout.
+ */
+async function checkThrottled(
+  c: Context,
+  user: typeof usersTable.$inferSelect,
+  check: () => Promise<boolean>
+): Promise<SecondFactorCheck> {
+  const clientIP = getClientIP(c);
+  const throttle = await checkLoginAllowed(user.email, clientIP, user);
+
+  if (!throttle.allowed) {
+    return { status: 'throttled', retryAfterSeconds: throttle.retryAfterSeconds };
+  }
+
+  await waitForLoginDelay(throttle);
+
+  if (await check()) {
+    return { status: 'valid' };
+  }
+
+  const lockedUntil = await recordLoginAttempt(user.email, clientIP, false, user);
+  if (lockedUntil) {
+    await recordSecurityEvent(c, 'account_lockout', {
+      userId: user.id,
+      lockedUntil: lockedUntil.toISOString(),
+    });
+  }
+
+  return { status: 'invalid' };
+}
+
+// Issue real tokens once every login factor has been checked
+async function completeLogin(
+  c: Context,
+  user: { id: number; email: string; roleId: number },
+  deviceInfo: string
+) {
+  const tokens = await generateAuthTokens(user, deviceInfo);
+
+  await recordAuditLog(c, {
+    action: 'auth.login',
+    entityType: 'user',
+    entityId: user.id,
+    actorId: user.id,
+  });
+
+  const userData = await getUserById(user.id);
+
+  return userData ? { ...tokens, user: userData } : null;
+}
+
 export const authRoute = new Hono()
-  .post('/login', zValidator('json', loginWithTurnstileSchema), async (c) => {
+  .post('/login', formRateLimit, zValidator('json', loginWithTurnstileSchema), async (c) => {
     const { email, password, turnstileToken } = c.req.valid('json');
     const deviceInfo = c.req.header('User-Agent') || 'unknown';
-    const clientIP = c.req.header('x-forwarded-for') || c.req.header('x-real-ip') || 'unknown';
+    const clientIP = getClientIP(c);
 
     if (environtment !== 'development') {
       const isValid = await verifyTurnstileToken(turnstileToken, clientIP);
@@ -91,44 +243,166 @@ export const authRoute = new Hono()
 
       // if coutn user is 0, then create admin user
       if (countUser[0].count === 0) {
-        const hashedPassword = await bcrypt.hash(password, hashSalt ?? 'salt');
+        const hashedPassword = await hashPassword(password);
         await db.insert(usersTable).values({
           name: 'Admin',
           email: email,
           password: hashedPassword,
+          roleId: ROLE.ADMIN,
         });
       }
 
       // Find user by email
       const user = await db.select().from(usersTable).where(eq(usersTable.email, email));
 
+      // Refuse locked accounts and IPs with too many failures, slow down repeated failures
+      const throttle = await checkLoginAllowed(email, clientIP, user[0]);
+
+      if (!throttle.allowed) {
+        c.header('Retry-After', String(throttle.retryAfterSeconds));
+        return c.json({ message: 'Too many failed login attempts. Please try again later.' }, 429);
+      }
+
+      await waitForLoginDelay(throttle);
+
       if (user.length === 0) {
+        await recordLoginAttempt(email, clientIP, false);
         return c.json({ message: 'Invalid email or password.' }, 401);
       }
 
       // Verify password
-      const hashedPassword = await bcrypt.hash(password, hashSalt ?? 'salt');
-      if (hashedPassword !== user[0].password) {
+      if (!(await verifyPassword(password, user[0].password))) {
+        const lockedUntil = await recordLoginAttempt(email, clientIP, false, user[0]);
+        if (lockedUntil) {
+          await recordSecurityEvent(c, 'account_lockout', {
+            userId: user[0].id,
+            lockedUntil: lockedUntil.toISOString(),
+          });
+        }
         return c.json({ message: 'Invalid email or password.' }, 401);
       }
 
-      // Generate JWT token
-      const tokens = await generateAuthTokens(user[0], deviceInfo);
+      // With 2FA enabled the login only succeeds once the code is verified, so failed codes
+      // count towards the same lockout as failed passwords
+      if (!user[0].totpEnabledAt) {
+        await recordLoginAttempt(email, clientIP, true, user[0]);
+      }
 
-      const userData = await getUserById(user[0].id);
+      // Upgrade hashes made with the old shared salt or a different cost
+      if (needsRehash(user[0].password)) {
+        await db
+          .update(usersTable)
+          .set({ password: await hashPassword(password) })
+          .where(eq(usersTable.id, user[0].id));
+      }
+
+      // Ask for a second factor, or for enrollment when 2FA is required for everyone
+      const twoFactorEnabled = Boolean(user[0].totpEnabledAt);
+      const { requireTwoFactor } = await getAppSettings();
 
-      if (!userData) {
+      if (twoFactorEnabled || requireTwoFactor) {
+        return c.json({ data: await generateMfaPendingToken(user[0].id, !twoFactorEnabled) });
+      }
+
+      const loginData = await completeLogin(c, user[0], deviceInfo);
+
+      if (!loginData) {
         return c.json({ message: 'User not found.' }, 404);
       }
 
+      return c.json({ data: loginData });
+    } catch (error) {
+      logger.error(`Error during sign-in: ${error}`);
+      return c.json({ message: 'Internal server error.' }, 500);
+    }
+  })
+  // Email a password reset link; the response is the same whether or not the account exists
+  .post('/forgot-password', formRateLimit, zValidator('json', forgotPasswordSchema), async (c) => {
+    const { email, turnstileToken } = c.req.valid('json');
+    const clientIP = getClientIP(c);
+
+    if (environtment !== 'development') {
+      const isValid = await verifyTurnstileToken(turnstileToken, clientIP);
+      if (!isValid) {
+        return c.json({ message: 'Invalid turnstile token.' }, 401);
+      }
+    }
+
+    try {
+      const user = await db
+        .select({ id: usersTable.id, name: usersTable.name, email: usersTable.email })
+        .from(usersTable)
+        .where(and(eq(usersTable.email, email), isNull(usersTable.deletedAt)));
+
+      if (user.length > 0) {
+        const { token, expiresAt } = await createPasswordResetToken(user[0].id);
+        const resetUrl = `${env.APP_URL}/reset-password?token=${encodeURIComponent(token)}`;
+
+        sendMail({
+          to: user[0].email,
+          subject: 'Reset your password',
+          text: [
+            `Hi ${user[0].name},`,
+            '',
+            'Use the link below to choose a new password:',
+            resetUrl,
+            '',
+            `The link expires at ${expiresAt.toISOString()} and can only be used once.`,
+            'If you did not ask for a password reset, you can ignore this email.',
+          ].join('\n'),
+        }).catch((error) => {
+          logger.error(`Error sending password reset email to user ${user[0].id}: ${error}`);
+        });
+      }
+
       return c.json({
-        data: {
-          ...tokens,
-          user: userData,
-        },
+        success: true,
+        message: 'If an account exists for this email, a reset link has been sent.',
       });
     } catch (error) {
-      logger.error(`Error during sign-in: ${error}`);
+      logger.error(`Error requesting password reset: ${error}`);
+      return c.json({ message: 'Internal server error.' }, 500);
+    }
+  })
+  // Set a new password with a reset token and sign the user out everywhere
+  .post('/reset-password', formRateLimit, zValidator('json', resetPasswordSchema), async (c) => {
+    const { token, password, turnstileToken } = c.req.valid('json');
+    const clientIP = getClientIP(c);
+
+    if (environtment !== 'development') {
+      const isValid = await verifyTurnstileToken(turnstileToken, clientIP);
+      if (!isValid) {
+        return c.json({ message: 'Invalid turnstile token.' }, 401);
+      }
+    }
+
+    try {
+      const userId = await consumePasswordResetToken(token);
+
+      if (!userId) {
+        return c.json({ message: 'Invalid or expired reset token.' }, 400);
+      }
+
+      await db
+        .update(usersTable)
+        .set({ password: await hashPassword(password), updatedAt: new Date() })
+        .where(eq(usersTable.id, userId));
+
+      await revokeUserSessions(userId);
+
+      await recordAuditLog(c, {
+        action: 'auth.password_reset',
+        entityType: 'user',
+        entityId: userId,
+        actorId: userId,
+      });
+
+      return c.json({
+        success: true,
+        message: 'Password has been reset. Please sign in with your new password.',
+      });
+    } catch (error) {
+      logger.error(`Error resetting password: ${error}`);
       return c.json({ message: 'Internal server error.' }, 500);
     }
   })
@@ -147,30 +421,31 @@ export const authRoute = new Hono()
 
       try {
         // Find refresh token in database
-        const storedTokens = await db
-          .select()
-          .from(userRefreshTokenTable)
-          .where(
-            and(
-              eq(userRefreshTokenTable.userId, userId),
-              eq(userRefreshTokenTable.isRevoked, 0),
-              gte(userRefreshTokenTable.expiresAt, new Date())
-            )
-          );
+        const result = await checkRefreshToken(refreshToken, userId);
+
+        // A rotated token came back: assume it was stolen and end the whole session
+        const handleReuse = async (token: { id: string; familyId: string }) => {
+          const revoked = await revokeRefreshTokenFamily(token.familyId);
+          logger.warn(`Refresh token reuse detected for user ${userId}, revoked ${revoked} tokens`);
+          await recordSecurityEvent(c, 'refresh_token_reuse', {
+            userId,
+            familyId: token.familyId,
+            tokenId: token.id,
+            revoked,
+          });
+          return c.json({ message: 'Invalid refresh token.' }, 401);
+        };
 
-        let validToken = null;
-        for (const stored of storedTokens) {
-          const isValid = await bcrypt.compare(refreshToken, stored.token);
-          if (isValid) {
-            validToken = stored;
-            break;
-          }
+        if (result.status === 'reused') {
+          return handleReuse(result.token);
         }
 
-        if (!validToken) {
+        if (result.status === 'invalid') {
           return c.json({ message: 'Invalid refresh token.' }, 401);
         }
 
+        const validToken = result.token;
+
         // Get user data
         const user = await db.select().from(usersTable).where(eq(usersTable.id, validToken.userId));
 
@@ -178,14 +453,13 @@ export const authRoute = new Hono()
           return c.json({ message: 'User not found.' }, 401);
         }
 
-        // Revoke used refresh token
-        await db
-          .update(userRefreshTokenTable)
-          .set({ isRevoked: 1 })
-          .where(eq(userRefreshTokenTable.id, validToken.id));
+        // Revoke used refresh token; losing a race with another rotation of it is reuse too
+        if (!(await revokeRefreshToken(validToken.id))) {
+          return handleReuse(validToken);
+        }
 
         // Generate new tokens
-        const tokens = await generateAuthTokens(user[0], deviceInfo);
+        const tokens = await generateAuthTokens(user[0], deviceInfo, validToken);
 
         return c.json({
           success: true,
@@ -212,28 +486,20 @@ export const authRoute = new Hono()
   })
   .post('logout', authMiddleware, async (c) => {
     const refreshToken = c.req.header('X-Refresh-Token');
-    console.log('Logout request received with refresh token:', refreshToken);
 
     try {
+      const { userId } = c.get('jwtPayload') as AuthPayload;
+
       // Revoke refresh token if provided
       if (refreshToken) {
-        const storedTokens = await db
-          .select()
-          .from(userRefreshTokenTable)
-          .where(eq(userRefreshTokenTable.isRevoked, 0));
-
-        for (const stored of storedTokens) {
-          const isValid = await bcrypt.compare(refreshToken, stored.token);
-          if (isValid) {
-            await db
-              .update(userRefreshTokenTable)
-              .set({ isRevoked: 1 })
-              .where(eq(userRefreshTokenTable.id, stored.id));
-            break;
-          }
+        const stored = await findActiveRefreshToken(refreshToken, userId);
+        if (stored) {
+          await revokeRefreshToken(stored.id);
         }
       }
 
+      await recordAuditLog(c, { action: 'auth.logout', entityType: 'user', entityId: userId });
+
       deleteCookie(c, 'access_token');
       deleteCookie(c, 'refresh_token');
 
@@ -245,9 +511,295 @@ export const authRoute = new Hono()
       logger.error(`Error during logout: ${error}`);
       return c.json({ success: false, message: 'Internal server error.' }, 500);
     }
+  })
+  // Exchange an MFA pending token and a TOTP or recovery code for real tokens
+  .post(
+    '/mfa/verify',
+    formRateLimit,
+    tokenAuth('mfa_pending'),
+    zValidator('json', mfaVerifySchema),
+    async (c) => {
+      const { userId, enrollment, iat } = c.get('jwtPayload') as MfaPendingPayload;
+      const deviceInfo = c.req.header('User-Agent') || 'unknown';
+      const clientIP = getClientIP(c);
+
+      try {
+        if (enrollment) {
+          return c.json({ message: 'Two-factor enrollment is required.' }, 400);
+        }
+
+        const user = await db
+          .select()
+          .from(usersTable)
+          .where(and(eq(usersTable.id, userId), isNull(usersTable.deletedAt)));
+
+        if (user.length === 0) {
+          return c.json({ message: 'User not found.' }, 404);
+        }
+
+        // A pending token only allows a few codes; tokens without iat predate this check
+        const failures = iat
+          ? await countLoginFailuresSince(user[0].email, new Date(iat * 1000))
+          : SECURITY_CONFIG.MFA_VERIFY.maxFailuresPerToken;
+
+        if (failures >= SECURITY_CONFIG.MFA_VERIFY.maxFailuresPerToken) {
+          return c.json(
+            { message: 'Too many invalid two-factor codes. Please sign in again.' },
+            401
+          );
+        }
+
+        // Failed codes are throttled per user like failed passwords
+        const check = await checkThrottled(c, user[0], () =>
+          verifySecondFactor(userId, c.req.valid('json'))
+        );
+
+        if (check.status === 'throttled') {
+          c.header('Retry-After', String(check.retryAfterSeconds));
+          return c.json(
+            { message: 'Too many failed login attempts. Please try again later.' },
+            429
+          );
+        }
+
+        if (check.status === 'invalid') {
+          return c.json({ message: 'Invalid two-factor code.' }, 401);
+        }
+
+        await recordLoginAttempt(user[0].email, clientIP, true, user[0]);
+
+        const loginData = await completeLogin(c, user[0], deviceInfo);
+
+        if (!loginData) {
+          return c.json({ message: 'User not found.' }, 404);
+        }
+
+        return c.json({ data: loginData });
+      } catch (error) {
+        logger.error(`Error verifying two-factor code: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
+      }
+    }
+  )
+  // Start TOTP enrollment, signed in or with an enrollment-only MFA pending token
+  .post('/mfa/enroll', tokenAuth('access', 'mfa_pending'), async (c) => {
+    const { userId } = c.get('jwtPayload') as AuthPayload | MfaPendingPayload;
+
+    try {
+      const user = await getUserById(userId);
+
+      if (!user) {
+        return c.json({ message: 'User not found.' }, 404);
+      }
+
+      if (user.totpEnabledAt) {
+        return c.json({ message: 'Two-factor authentication is already enabled.' }, 400);
+      }
+
+      const enrollment = await startTotpEnrollment(user.id, user.email);
+
+      return c.json({ success: true, data: enrollment });
+    } catch (error) {
+      logger.error(`Error starting two-factor enrollment: ${error}`);
+      return c.json({ message: 'Internal server error.' }, 500);
+    }
+  })
+  // Confirm enrollment; returns the recovery codes, plus real tokens for a pending login
+  .post(
+    '/mfa/confirm',
+    tokenAuth('access', 'mfa_pending'),
+    zValidator('json', mfaCodeSchema),
+    async (c) => {
+      const payload = c.get('jwtPayload') as AuthPayload | MfaPendingPayload;
+      const deviceInfo = c.req.header('User-Agent') || 'unknown';
+
+      try {
+        const recoveryCodes = await confirmTotpEnrollment(payload.userId, c.req.valid('json').code);
+
+        if (!recoveryCodes) {
+          return c.json({ message: 'Invalid two-factor code.' }, 400);
+        }
+
+        await recordAuditLog(c, {
+          action: 'auth.mfa_enable',
+          entityType: 'user',
+          entityId: payload.userId,
+          actorId: payload.userId,
+        });
+
+        if (payload.type === 'access') {
+          return c.json({
+            success: true,
+            message: 'Two-factor authentication enabled.',
+            data: { recoveryCodes },
+          });
+        }
+
+        const user = await getUserById(payload.userId);
+        const loginData = user ? await completeLogin(c, user, deviceInfo) : null;
+
+        if (!loginData) {
+          return c.json({ message: 'User not found.' }, 404);
+        }
+
+        return c.json({
+          success: true,
+          message: 'Two-factor authentication enabled.',
+          data: { ...loginData, recoveryCodes },
+        });
+      } catch (error) {
+        logger.error(`Error confirming two-factor enrollment: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
+      }
+    }
+  )
+  // Turn off 2FA; needs the password and a current code
+  .post('/mfa/disable', authMiddleware, zValidator('json', mfaDisableSchema), async (c) => {
+    const { userId } = c.get('jwtPayload') as AuthPayload;
+    const { password, code, recoveryCode } = c.req.valid('json');
+
+    try {
+      const { requireTwoFactor } = await getAppSettings();
+
+      if (requireTwoFactor) {
+        return c.json({ message: 'Two-factor authentication is required for all users.' }, 403);
+      }
+
+      const user = await db.select().from(usersTable).where(eq(usersTable.id, userId));
+
+      if (user.length === 0) {
+        return c.json({ message: 'User not found.' }, 404);
+      }
+
+      // Wrong passwords and codes here count towards the lockout like failed logins
+      const check = await checkThrottled(
+        c,
+        user[0],
+        async () =>
+          (await verifyPassword(password, user[0].password)) &&
+          (await verifySecondFactor(userId, { code, recoveryCode }))
+      );
+
+      if (check.status === 'throttled') {
+        c.header('Retry-After', String(check.retryAfterSeconds));
+        return c.json({ message: 'Too many failed attempts. Please try again later.' }, 429);
+      }
+
+      if (check.status === 'invalid') {
+        return c.json({ message: 'Invalid password or two-factor code.' }, 401);
+      }
+
+      await disableTwoFactor(userId);
+
+      await recordAuditLog(c, { action: 'auth.mfa_disable', entityType: 'user', entityId: userId });
+
+      return c.json({
+        success: true,
+        message: 'Two-factor authentication disabled.',
+      });
+    } catch (error) {
+      logger.error(`Error disabling two-factor authentication: ${error}`);
+      return c.json({ message: 'Internal server error.' }, 500);
+    }
+  })
+  // Replace the recovery codes after checking a current code
+  .post('/mfa/recovery-codes', authMiddleware, zValidator('json', mfaCodeSchema), async (c) => {
+    const { userId } = c.get('jwtPayload') as AuthPayload;
+
+    try {
+      const user = await db.select().from(usersTable).where(eq(usersTable.id, userId));
+
+      if (user.length === 0) {
+        return c.json({ message: 'User not found.' }, 404);
+      }
+
+      const check = await checkThrottled(c, user[0], () =>
+        verifySecondFactor(userId, { code: c.req.valid('json').code })
+      );
+
+      if (check.status === 'throttled') {
+        c.header('Retry-After', String(check.retryAfterSeconds));
+        return c.json({ message: 'Too many failed attempts. Please try again later.' }, 429);
+      }
+
+      if (check.status === 'invalid') {
+        return c.json({ message: 'Invalid two-factor code.' }, 401);
+      }
+
+      const recoveryCodes = await regenerateRecoveryCodes(userId);
+
+      return c.json({
+        success: true,
+        message: 'Recovery codes regenerated.',
+        data: { recoveryCodes },
+      });
+    } catch (error) {
+      logger.error(`Error regenerating recovery codes: ${error}`);
+      return c.json({ message: 'Internal server error.' }, 500);
+    }
+  })
+  // List the current user's active sessions
+  .get('/sessions', authMiddleware, async (c) => {
+    const { userId, sessionId } = c.get('jwtPayload') as AuthPayload;
+    try {
+      const sessions = await listActiveSessions(userId, sessionId);
+      return c.json({ success: true, data: sessions });
+    } catch (error) {
+      logger.error(`Error fetching sessions: ${error}`);
+      return c.json({ message: 'Internal server error.' }, 500);
+    }
+  })
+  // Log out everywhere else: revoke every session except the current one
+  .delete('/sessions', authMiddleware, async (c) => {
+    const { userId, sessionId } = c.get('jwtPayload') as AuthPayload;
+    try {
+      if (!sessionId) {
+        return c.json({ message: 'Current session is unknown, please sign in again.' }, 400);
+      }
+
+      const revoked = await revokeUserSessions(userId, sessionId);
+
+      return c.json({
+        success: true,
+        message: 'Logged out of all other sessions.',
+        data: { revoked },
+      });
+    } catch (error) {
+      logger.error(`Error revoking sessions: ${error}`);
+      return c.json({ message: 'Internal server error.' }, 500);
+    }
+  })
+  // Revoke one of the current user's sessions
+  .delete('/sessions/:id', authMiddleware, zValidator('param', sessionIdSchema), async (c) => {
+    const { userId } = c.get('jwtPayload') as AuthPayload;
+    const { id } = c.req.valid('param');
+    try {
+      if (!(await revokeSession(userId, id))) {
+        return c.json({ message: 'Session not found.' }, 404);
+      }
+
+      return c.json({
+        success: true,
+        message: 'Session revoked successfully.',
+      });
+    } catch (error) {
+      logger.error(`Error revoking session: ${error}`);
+      return c.json({ message: 'Internal server error.' }, 500);
+    }
   });
 
 async function getUserById(id: number) {
-  const user = await db.select().from(usersTable).where(eq(usersTable.id, id));
+  const user = await db
+    .select({
+      id: usersTable.id,
+      name: usersTable.name,
+      email: usersTable.email,
+      roleId: usersTable.roleId,
+      totpEnabledAt: usersTable.totpEnabledAt,
+      createdAt: usersTable.createdAt,
+      updatedAt: usersTable.updatedAt,
+    })
+    .from(usersTable)
+    .where(eq(usersTable.id, id));
   return user[0];
 }
@@ -0,0 +1,31 @@
+import { Hono } from 'hono';
+
+import { logger } from '../lib/logger.js';
+import { getClientIP } from '../lib/security.js';
+
+// Browsers send either a legacy `csp-report` object or a Reporting API array
+type CspReportBody =
+  { 'csp-report'?: Record<string, unknown> } | { type?: string; body?: Record<string, unknown> }[];
+
+// for collecting Content-Security-Policy violation reports sent by browsers
+export const cspReportRoute = new Hono().post('/', async (c) => {
+  try {
+    const body = (await c.req.json()) as CspReportBody;
+    const reports = Array.isArray(body)
+      ? body.filter((report) => report.type === 'csp-violation').map((report) => report.body)
+      : [body['csp-report']];
+
+    for (const report of reports) {
+      if (!report) {
+        continue;
+      }
+      logger.warn(
+        `CSP violation from ${getClientIP(c)}: ${JSON.stringify(report).substring(0, 2000)}`
+      );
+    }
+  } catch (error) {
+    logger.warn(`Invalid CSP report received: ${error}`);
+  }
+
+  return c.body(null, 204);
+});
@@ -0,0 +1,110 @@
+import { zValidator } from '@hono/zod-validator';
+import { and, eq, isNull } from 'drizzle-orm';
+import { Hono } from 'hono';
+import { bodyLimit } from 'hono/body-limit';
+import { z } from 'zod';
+
+import { db } from '../db/database.js';
+import { servicesTable } from '../db/schema/schema.js';
+import { logger } from '../lib/logger.js';
+import {
+  MAX_INGEST_BATCH,
+  parseIngestRecords,
+  RejectedRecord,
+  verifyIngestToken,
+} from '../lib/serviceIngest.js';
+import { pushServiceLogs } from '../lib/serviceLogSync.js';
+import { SERVICE_STATUS } from '../types/service.type.js';
+
+// Validation schemas
+const ingestParamSchema = z.object({
+  serviceId: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number().int().positive()),
+});
+
+// A single record or a batch; each record is validated against the service type afterwards
+const ingestBodySchema = z.union([
+  z.array(z.unknown()).min(1, 'At least one record is required').max(MAX_INGEST_BATCH),
+  z.record(z.string(), z.unknown()),
+]);
+
+// for hosts that can't be pulled from (NAT, firewalls) to push their metric records
+export const ingestRoute = new Hono().post(
+  '/:serviceId',
+  bodyLimit({
+    maxSize: 2 * 1024 * 1024, // 2 MB
+    onError: (c) => c.json({ message: 'Payload too large.' }, 413),
+  }),
+  zValidator('param', ingestParamSchema),
+  zValidator('json', ingestBodySchema),
+  async (c) => {
+    try {
+      const { serviceId } = c.req.valid('param');
+      const body = c.req.valid('json');
+      const authorization = c.req.header('Authorization');
+
+      const services = await db
+        .select()
+        .from(servicesTable)
+        .where(and(eq(servicesTable.id, serviceId), isNull(servicesTable.deletedAt)));
+
+      // Unknown services and bad tokens look the same, so service ids can't be probed
+      if (
+        services.length === 0 ||
+        !authorization?.startsWith('Bearer ') ||
+        !verifyIngestToken(services[0], authorization.slice(7))
+      ) {
+        return c.json({ message: 'Unauthorized.' }, 401);
+      }
+
+      const service = services[0];
+
+      if (service.status !== SERVICE_STATUS.ACTIVE) {
+        return c.json({ message: 'Service is inactive.' }, 403);
+      }
+
+      const { records, rejected } = parseIngestRecords(
+        service,
+        Array.isArray(body) ? body : [body]
+      );
+
+      // Nothing to store when every record failed validation
+      const result =
+        records.length > 0
+          ? await pushServiceLogs(service, records)
+          : ({ success: true, data: [] } as const);
+
+      if (!result.success) {
+        return c.json({ message: result.message }, result.status);
+      }
+
+      // Valid records that weren't inserted were already stored or repeated in the batch
+      const insertedIds = new Set(result.data.map((row) => row.recordId));
+      const duplicates: RejectedRecord[] = [];
+      for (const record of records) {
+        if (insertedIds.has(record.recordId)) {
+          insertedIds.delete(record.recordId);
+        } else {
+          duplicates.push({ index: record.index, recordId: record.recordId, reason: 'duplicate' });
+        }
+      }
+
+      const rejectedRecords = [...rejected, ...duplicates].sort((a, b) => a.index - b.index);
+
+      return c.json({
+        success: true,
+        message: 'Service logs ingested.',
+        data: {
+          accepted: result.data.length,
+          rejected: rejectedRecords.length,
+          rejectedRecords,
+        },
+      });
+    } catch (error) {
+      logger.error(`Error ingesting service logs: ${error}`);
+      return c.json({ message: 'Internal server error.' }, 500);
+    }
+  }
+);
@@ -0,0 +1,417 @@
+import { zValidator } from '@hono/zod-validator';
+import { and, asc, count, desc, eq, isNull, like } from 'drizzle-orm';
+import { Hono } from 'hono';
+import { z } from 'zod';
+
+import { db } from '../db/database.js';
+import { notificationChannelsTable, notificationDeliveriesTable } from '../db/schema/schema.js';
+import { logger } from '../lib/logger.js';
+import { sendTestNotification } from '../lib/notifications/index.js';
+import {
+  createPaginationResponse,
+  getPaginationParams,
+  paginationSchema,
+} from '../lib/pagination.js';
+import { AuthPayload, scopedAuthMiddleware } from '../middleware/jwt.js';
+import { requirePermission } from '../middleware/permission.js';
+import { PERMISSIONS } from '../types/permission.type.js';
+
+// Validation schemas
+const channelConfigSchemas = {
+  webhook: z.object({
+    url: z.url('Invalid webhook URL format'),
+    headers: z.record(z.string(), z.string()).optional(),
+  }),
+  email: z.object({
+    to: z.array(z.email('Invalid email format')).min(1, 'At least one recipient is required'),
+  }),
+  slack: z.object({
+    url: z.url('Invalid webhook URL format'),
+  }),
+  discord: z.object({
+    url: z.url('Invalid webhook URL format'),
+  }),
+};
+
+const channelFields = {
+  name: z.string().min(3, 'Name must be at least 3 characters'),
+  subjectTemplate: z.string().min(1).max(255).nullable().optional(),
+  bodyTemplate: z.string().min(1).max(5000).nullable().optional(),
+  status: z
+    .number()
+    .int()
+    .min(0)
+    .max(1, 'Status must be 0 or 1 (0: inactive, 1: active)')
+    .optional(),
+};
+
+const createChannelSchema = z.discriminatedUnion('type', [
+  z.object({ ...channelFields, type: z.literal('webhook'), config: channelConfigSchemas.webhook }),
+  z.object({ ...channelFields, type: z.literal('email'), config: channelConfigSchemas.email }),
+  z.object({ ...channelFields, type: z.literal('slack'), config: channelConfigSchemas.slack }),
+  z.object({ ...channelFields, type: z.literal('discord'), config: channelConfigSchemas.discord }),
+]);
+
+const updateChannelSchema = z.object({
+  ...channelFields,
+  name: channelFields.name.optional(),
+  config: z.record(z.string(), z.unknown()).optional(),
+});
+
+const channelIdSchema = z.object({
+  id: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number().int().positive()),
+});
+
+async function getOwnChannel(id: number, userId: number) {
+  const channel = await db
+    .select()
+    .from(notificationChannelsTable)
+    .where(
+      and(
+        eq(notificationChannelsTable.id, id),
+        eq(notificationChannelsTable.userId, userId),
+        isNull(notificationChannelsTable.deletedAt)
+      )
+    );
+  return channel[0];
+}
+
+// for managing the current user's notification channels; alert destinations, so they share the
+// alert permissions
+export const notificationChannelRoute = new Hono()
+  .use(scopedAuthMiddleware)
+  // Create notification channel
+  .post(
+    '/',
+    requirePermission(PERMISSIONS.ALERTS_WRITE),
+    zValidator('json', createChannelSchema),
+    async (c) => {
+      try {
+        const { userId } = c.get('jwtPayload') as AuthPayload;
+        const {
+          name,
+          type,
+          config,
+          subjectTemplate = null,
+          bodyTemplate = null,
+          status = 1,
+        } = c.req.valid('json');
+
+        const [{ id }] = await db
+          .insert(notificationChannelsTable)
+          .values({ userId, name, type, config, subjectTemplate, bodyTemplate, status })
+          .$returningId();
+
+        const newChannel = await getOwnChannel(id, userId);
+
+        if (!newChannel) {
+          return c.json({ message: 'Failed to create notification channel.' }, 500);
+        }
+
+        return c.json(
+          {
+            success: true,
+            message: 'Notification channel created successfully.',
+            data: newChannel,
+          },
+          201
+        );
+      } catch (error) {
+        logger.error(`Error creating notification channel: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
+      }
+    }
+  )
+  // Get all notification channels of the current user
+  .get(
+    '/',
+    requirePermission(PERMISSIONS.ALERTS_READ),
+    zValidator('query', paginationSchema),
+    async (c) => {
+      try {
+        const { userId } = c.get('jwtPayload') as AuthPayload;
+        const { page, limit, search, sort_by, order } = c.req.valid('query');
+        const { offset } = getPaginationParams(page, limit);
+
+        // Build where clause
+        const ownChannels = and(
+          eq(notificationChannelsTable.userId, userId),
+          isNull(notificationChannelsTable.deletedAt)
+        );
+        const whereClause = search
+          ? and(ownChannels, like(notificationChannelsTable.name, `%${search}%`))
+          : ownChannels;
+
+        // Get total count of channels
+        const totalResult = await db
+          .select({ count: count() })
+          .from(notificationChannelsTable)
+          .where(whereClause);
+
+        const total = totalResult[0].count;
+
+        // Build order by clause
+        const orderBy =
+          order === 'desc'
+            ? desc(
+                notificationChannelsTable[
+                  sort_by as keyof typeof notificationChannelsTable.$inferSelect
+                ]
+              )
+            : asc(
+                notificationChannelsTable[
+                  sort_by as keyof typeof notificationChannelsTable.$inferSelect
+                ]
+              );
+
+        // Get paginated channels
+        const channels = await db
+          .select()
+          .from(notificationChannelsTable)
+          .where(whereClause)
+          .orderBy(orderBy)
+          .limit(limit)
+          .offset(offset);
+
+        const response = createPaginationResponse(
+          channels,
+          total,
+          page,
+          limit,
+          search || '',
+          sort_by,
+          order
+        );
+
+        return c.json(response);
+      } catch (error) {
+        logger.error(`Error fetching notification channels: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
+      }
+    }
+  )
+  // Get notification channel by ID
+  .get(
+    '/:id',
+    requirePermission(PERMISSIONS.ALERTS_READ),
+    zValidator('param', channelIdSchema),
+    async (c) => {
+      try {
+        const { userId } = c.get('jwtPayload') as AuthPayload;
+        const { id } = c.req.valid('param');
+
+        const channel = await getOwnChannel(id, userId);
+
+        if (!channel) {
+          return c.json({ message: 'Notification channel not found.' }, 404);
+        }
+
+        return c.json({
+          success: true,
+          data: channel,
+        });
+      } catch (error) {
+        logger.error(`Error fetching notification channel: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
+      }
+    }
+  )
+  // Update notification channel
+  .put(
+    '/:id',
+    requirePermission(PERMISSIONS.ALERTS_WRITE),
+    zValidator('param', channelIdSchema),
+    zValidator('json', updateChannelSchema),
+    async (c) => {
+      try {
+        const { userId } = c.get('jwtPayload') as AuthPayload;
+        const { id } = c.req.valid('param');
+        const { config, ...updateData } = c.req.valid('json');
+
+        const existingChannel = await getOwnChannel(id, userId);
+
+        if (!existingChannel) {
+          return c.json({ message: 'Notification channel not found.' }, 404);
+        }
+
+        const updateValues: Partial<typeof notificationChannelsTable.$inferSelect> = {
+          ...updateData,
+          updatedAt: new Date(),
+        };
+
+        // Validate config against the channel's existing type
+        if (config) {
+          const parsedConfig = channelConfigSchemas[existingChannel.type].safeParse(config);
+          if (!parsedConfig.success) {
+            return c.json(
+              { message: 'Invalid channel config.', errors: parsedConfig.error.issues },
+              400
+            );
+          }
+          updateValues.config = parsedConfig.data;
+        }
+
+        await db
+          .update(notificationChannelsTable)
+          .set(updateValues)
+          .where(eq(notificationChannelsTable.id, id));
+
+        const updatedChannel = await getOwnChannel(id, userId);
+
+        if (!updatedChannel) {
+          return c.json({ message: 'Failed to update notification channel.' }, 500);
+        }
+
+        return c.json({
+          success: true,
+          message: 'Notification channel updated successfully.',
+          data: updatedChannel,
+        });
+      } catch (error) {
+        logger.error(`Error updating notification channel: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
+      }
+    }
+  )
+  // Delete notification channel (soft delete)
+  .delete(
+    '/:id',
+    requirePermission(PERMISSIONS.ALERTS_WRITE),
+    zValidator('param', channelIdSchema),
+    async (c) => {
+      try {
+        const { userId } = c.get('jwtPayload') as AuthPayload;
+        const { id } = c.req.valid('param');
+
+        const existingChannel = await getOwnChannel(id, userId);
+
+        if (!existingChannel) {
+          return c.json({ message: 'Notification channel not found.' }, 404);
+        }
+
+        await db
+          .update(notificationChannelsTable)
+          .set({
+            deletedAt: new Date(),
+            updatedAt: new Date(),
+          })
+          .where(eq(notificationChannelsTable.id, id));
+
+        return c.json({
+          success: true,
+          message: 'Notification channel deleted successfully.',
+        });
+      } catch (error) {
+        logger.error(`Error deleting notification channel: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
+      }
+    }
+  )
+  // Send a test notification through the channel
+  .post(
+    '/:id/test',
+    requirePermission(PERMISSIONS.ALERTS_WRITE),
+    zValidator('param', channelIdSchema),
+    async (c) => {
+      try {
+        const { userId } = c.get('jwtPayload') as AuthPayload;
+        const { id } = c.req.valid('param');
+
+        const channel = await getOwnChannel(id, userId);
+
+        if (!channel) {
+          return c.json({ message: 'Notification channel not found.' }, 404);
+        }
+
+        const delivery = await sendTestNotification(channel);
+
+        if (!delivery.sentAt) {
+          return c.json(
+            {
+              success: false,
+              message: 'Failed to send test notification.',
+              data: delivery,
+            },
+            502
+          );
+        }
+
+        return c.json({
+          success: true,
+          message: 'Test notification sent successfully.',
+          data: delivery,
+        });
+      } catch (error) {
+        logger.error(`Error sending test notification: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
+      }
+    }
+  )
+  // Get delivery attempts of the channel with pagination
+  .get(
+    '/:id/deliveries',
+    requirePermission(PERMISSIONS.ALERTS_READ),
+    zValidator('param', channelIdSchema),
+    zValidator('query', paginationSchema),
+    async (c) => {
+      try {
+        const { userId } = c.get('jwtPayload') as AuthPayload;
+        const { id } = c.req.valid('param');
+        const { page, limit, sort_by, order } = c.req.valid('query');
+        const { offset } = getPaginationParams(page, limit);
+
+        const channel = await getOwnChannel(id, userId);
+
+        if (!channel) {
+          return c.json({ message: 'Notification channel not found.' }, 404);
+        }
+
+        const totalResult = await db
+          .select({ count: count() })
+          .from(notificationDeliveriesTable)
+          .where(eq(notificationDeliveriesTable.channelId, id));
+
+        const total = totalResult[0].count;
+
+        // Build order by clause
+        const orderBy =
+          order === 'desc'
+            ? desc(
+                notificationDeliveriesTable[
+                  sort_by as keyof typeof notificationDeliveriesTable.$inferSelect
+                ]
+              )
+            : asc(
+                notificationDeliveriesTable[
+                  sort_by as keyof typeof notificationDeliveriesTable.$inferSelect
+                ]
+              );
+
+        const deliveries = await db
+          .select()
+          .from(notificationDeliveriesTable)
+          .where(eq(notificationDeliveriesTable.channelId, id))
+          .orderBy(orderBy)
+          .limit(limit)
+          .offset(offset);
+
+        const response = createPaginationResponse(
+          deliveries,
+          total,
+          page,
+          limit,
+          '',
+          sort_by,
+          order
+        );
+
+        return c.json(response);
+      } catch (error) {
+        logger.error(`Error fetching notification deliveries: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
+      }
+    }
+  );
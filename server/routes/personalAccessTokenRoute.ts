@@ -0,0 +1,117 @@
+import { zValidator } from '@hono/zod-validator';
+import { Hono } from 'hono';
+import { z } from 'zod';
+
+import { recordAuditLog } from '../lib/auditLog.js';
+import { logger } from '../lib/logger.js';
+import { getRolePermissions } from '../lib/permissions.js';
+import {
+  createPersonalAccessToken,
+  listPersonalAccessTokens,
+  revokePersonalAccessToken,
+} from '../lib/personalAccessTokens.js';
+import authMiddleware, { AuthPayload } from '../middleware/jwt.js';
+import { PERMISSIONS } from '../types/permission.type.js';
+
+// Validation schemas
+const createTokenSchema = z.object({
+  name: z.string().min(3, 'Name must be at least 3 characters').max(255),
+  scopes: z.array(z.enum(Object.values(PERMISSIONS))).min(1, 'At least one scope is required'),
+  expiresAt: z.coerce
+    .date()
+    .refine((date) => date.getTime() > Date.now(), 'Expiry must be in the future')
+    .nullable()
+    .optional(),
+});
+
+const tokenIdSchema = z.object({
+  id: z.uuid(),
+});
+
+// for managing the current user's personal access tokens; tokens can't manage themselves
+export const personalAccessTokenRoute = new Hono()
+  .use(authMiddleware)
+  // Get the current user's tokens
+  .get('/', async (c) => {
+    try {
+      const { userId } = c.get('jwtPayload') as AuthPayload;
+
+      return c.json({
+        success: true,
+        data: await listPersonalAccessTokens(userId),
+      });
+    } catch (error) {
+      logger.error(`Error fetching personal access tokens: ${error}`);
+      return c.json({ message: 'Internal server error.' }, 500);
+    }
+  })
+  // Create a token; the plain token is only returned in this response
+  .post('/', zValidator('json', createTokenSchema), async (c) => {
+    try {
+      const { userId, role } = c.get('jwtPayload') as AuthPayload;
+      const { name, scopes, expiresAt = null } = c.req.valid('json');
+
+      const granted = await getRolePermissions(role);
+      const notGranted = scopes.filter((scope) => !granted.has(scope));
+
+      if (notGranted.length > 0) {
+        return c.json(
+          { message: `Your role doesn't have these scopes: ${notGranted.join(', ')}.` },
+          400
+        );
+      }
+
+      const { token, data } = await createPersonalAccessToken(userId, {
+        name,
+        scopes: [...new Set(scopes)],
+        expiresAt,
+      });
+
+      await recordAuditLog(c, {
+        action: 'auth.token_create',
+        entityType: 'user',
+        entityId: userId,
+        after: { tokenName: data.name, scopes: data.scopes, expiresAt: data.expiresAt },
+      });
+
+      return c.json(
+        {
+          success: true,
+          message: 'Personal access token created. Copy it now, it will not be shown again.',
+          data: { ...data, token },
+        },
+        201
+      );
+    } catch (error) {
+      logger.error(`Error creating personal access token: ${error}`);
+      return c.json({ message: 'Internal server error.' }, 500);
+    }
+  })
+  // Revoke a token
+  .delete('/:id', zValidator('param', tokenIdSchema), async (c) => {
+    try {
+      const { userId } = c.get('jwtPayload') as AuthPayload;
+      const { id } = c.req.valid('param');
+
+      const revoked = await revokePersonalAccessToken(userId, id);
+
+      if (!revoked) {
+        return c.json({ message: 'Personal access token not found.' }, 404);
+      }
+
+      await recordAuditLog(c, {
+        action: 'auth.token_revoke',
+        entityType: 'user',
+        entityId: userId,
+        before: { tokenName: revoked.name, scopes: revoked.scopes },
+      });
+
+      return c.json({
+        success: true,
+        message: 'Personal access token revoked.',
+      });
+    } catch (error) {
+      logger.error(`Error revoking personal access token: ${error}`);
+      return c.json({ message: 'Internal server error.' }, 500);
+    }
+  });
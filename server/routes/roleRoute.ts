@@ -0,0 +1,32 @@
+import { asc } from 'drizzle-orm';
+import { Hono } from 'hono';
+
+import { db } from '../db/database.js';
+import { rolePermissionsTable, rolesTable } from '../db/schema/schema.js';
+import { logger } from '../lib/logger.js';
+import { scopedAuthMiddleware } from '../middleware/jwt.js';
+import { requirePermission } from '../middleware/permission.js';
+import { PERMISSIONS } from '../types/permission.type.js';
+
+// for listing roles and the permissions they grant
+export const roleRoute = new Hono()
+  .use(scopedAuthMiddleware)
+  .get('/', requirePermission(PERMISSIONS.USERS_READ), async (c) => {
+    try {
+      const roles = await db.select().from(rolesTable).orderBy(asc(rolesTable.id));
+      const permissions = await db.select().from(rolePermissionsTable);
+
+      return c.json({
+        success: true,
+        data: roles.map((role) => ({
+          ...role,
+          permissions: permissions
+            .filter((permission) => permission.roleId === role.id)
+            .map((permission) => permission.permission),
+        })),
+      });
+    } catch (error) {
+      logger.error(`Error fetching roles: ${error}`);
+      return c.json({ message: 'Internal server error.' }, 500);
+    }
+  });
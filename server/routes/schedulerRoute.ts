@@ -0,0 +1,36 @@
+import { Hono } from 'hono';
+
+import {
+  getLogSyncSchedulerStatus,
+  pauseLogSyncScheduler,
+  resumeLogSyncScheduler,
+} from '../jobs/logSyncScheduler.js';
+import { scopedAuthMiddleware } from '../middleware/jwt.js';
+import { requirePermission } from '../middleware/permission.js';
+import { PERMISSIONS } from '../types/permission.type.js';
+
+// for controlling the background log sync scheduler
+export const schedulerRoute = new Hono()
+  .use(scopedAuthMiddleware)
+  .get('/', requirePermission(PERMISSIONS.SERVICES_READ), (c) => {
+    return c.json({
+      success: true,
+      data: getLogSyncSchedulerStatus(),
+    });
+  })
+  .post('/pause', requirePermission(PERMISSIONS.SCHEDULER_MANAGE), (c) => {
+    pauseLogSyncScheduler();
+    return c.json({
+      success: true,
+      message: 'Log sync scheduler paused.',
+      data: getLogSyncSchedulerStatus(),
+    });
+  })
+  .post('/resume', requirePermission(PERMISSIONS.SCHEDULER_MANAGE), (c) => {
+    resumeLogSyncScheduler();
+    return c.json({
+      success: true,
+      message: 'Log sync scheduler resumed.',
+      data: getLogSyncSchedulerStatus(),
+    });
+  });
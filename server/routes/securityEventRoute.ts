@@ -0,0 +1,99 @@
+import { zValidator } from '@hono/zod-validator';
+import { and, asc, count, desc, like, or } from 'drizzle-orm';
+import { Hono } from 'hono';
+
+import { db } from '../db/database.js';
+import { securityEventsTable } from '../db/schema/schema.js';
+import { FilterWhitelist, parseFilter } from '../lib/filter.js';
+import { logger } from '../lib/logger.js';
+import {
+  createPaginationResponse,
+  getPaginationParams,
+  paginationSchema,
+} from '../lib/pagination.js';
+import { scopedAuthMiddleware } from '../middleware/jwt.js';
+import { requirePermission } from '../middleware/permission.js';
+import { PERMISSIONS } from '../types/permission.type.js';
+
+// Columns allowed in the filter query parameter
+const securityEventFilterWhitelist: FilterWhitelist = {
+  id: { column: securityEventsTable.id, type: 'number' },
+  type: { column: securityEventsTable.type, type: 'string' },
+  blocked: { column: securityEventsTable.blocked, type: 'number' },
+  ip: { column: securityEventsTable.ip, type: 'string' },
+  method: { column: securityEventsTable.method, type: 'string' },
+  userId: { column: securityEventsTable.userId, type: 'number' },
+  createdAt: { column: securityEventsTable.createdAt, type: 'date' },
+};
+
+// for reviewing security events such as screened requests
+export const securityEventRoute = new Hono()
+  .use(scopedAuthMiddleware)
+  .get(
+    '/',
+    requirePermission(PERMISSIONS.SECURITY_READ),
+    zValidator('query', paginationSchema),
+    async (c) => {
+      try {
+        const { page, limit, search, sort_by, order, filter } = c.req.valid('query');
+        const { offset } = getPaginationParams(page, limit);
+
+        // Parse filter conditions
+        const parsedFilter = parseFilter(filter, securityEventFilterWhitelist);
+
+        if (!parsedFilter.success) {
+          return c.json({ message: parsedFilter.message }, 400);
+        }
+
+        // Build search conditions
+        const searchConditions = search
+          ? or(
+              like(securityEventsTable.path, `%${search}%`),
+              like(securityEventsTable.userAgent, `%${search}%`)
+            )
+          : undefined;
+
+        // Build where clause
+        const whereClause = and(searchConditions, ...parsedFilter.conditions);
+
+        // Get total count of security events
+        const totalResult = await db
+          .select({ count: count() })
+          .from(securityEventsTable)
+          .where(whereClause);
+
+        const total = totalResult[0].count;
+
+        // Build order by clause
+        const orderBy =
+          order === 'desc'
+            ? desc(securityEventsTable[sort_by as keyof typeof securityEventsTable.$inferSelect])
+            : asc(securityEventsTable[sort_by as keyof typeof securityEventsTable.$inferSelect]);
+
+        // Get paginated security events
+        const events = await db
+          .select()
+          .from(securityEventsTable)
+          .where(whereClause)
+          .orderBy(orderBy)
+          .limit(limit)
+          .offset(offset);
+
+        const response = createPaginationResponse(
+          events,
+          total,
+          page,
+          limit,
+          search || '',
+          sort_by,
+          order,
+          parsedFilter.appliedFilters
+        );
+
+        return c.json(response);
+      } catch (error) {
+        logger.error(`Error fetching security events: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
+      }
+    }
+  );
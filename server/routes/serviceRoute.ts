@@ -1,22 +1,54 @@
 import { zValidator } from '@hono/zod-validator';
-import { asc, desc, inArray, isNull, like, or } from 'drizzle-orm';
+import { asc, desc, inArray, isNull, like, or, sql } from 'drizzle-orm';
 import { eq } from 'drizzle-orm';
 import { and } from 'drizzle-orm';
 import { ne } from 'drizzle-orm';
 import { count } from 'drizzle-orm';
-import { Hono } from 'hono';
+import { Context, Hono } from 'hono';
+import { bodyLimit } from 'hono/body-limit';
+import { stream } from 'hono/streaming';
 import { z } from 'zod';
 
 import { db } from '../db/database.js';
-import { serviceLogsTable, servicesTable } from '../db/schema/schema.js';
+import {
+  serviceCheckResultsTable,
+  serviceLogRollupsTable,
+  serviceLogsTable,
+  servicesTable,
+} from '../db/schema/schema.js';
+import { recordAuditLog } from '../lib/auditLog.js';
+import { decryptSecret, encryptSecret, maskSecret } from '../lib/encryption.js';
+import { FilterWhitelist, parseFilter } from '../lib/filter.js';
+import { exportServiceLogs } from '../lib/logExport.js';
 import { logger } from '../lib/logger.js';
+import { applyLogRetention, getLogResolution } from '../lib/logRetention.js';
 import {
   createPaginationResponse,
   getPaginationParams,
   paginationSchema,
 } from '../lib/pagination.js';
-import authMiddleware from '../middleware/jwt.js';
-import { SERVICE_TYPE, SharedHostingHistoryResponse } from '../types/service.type.js';
+import {
+  createServiceDocument,
+  isSameApiKey,
+  parseServiceDocument,
+  serializeServiceDocument,
+  SERVICE_DOCUMENT_VERSION,
+} from '../lib/serviceDocument.js';
+import { createIngestToken } from '../lib/serviceIngest.js';
+import { Service, syncServiceLogs } from '../lib/serviceLogSync.js';
+import { getMetricBuckets } from '../lib/serviceMetrics.js';
+import { getUptimeSummary, runUptimeCheck } from '../lib/uptimeCheck.js';
+import { scopedAuthMiddleware } from '../middleware/jwt.js';
+import { hasPermissions, requirePermission } from '../middleware/permission.js';
+import { AppliedFilter } from '../types/pagination.type.js';
+import { PERMISSIONS } from '../types/permission.type.js';
+import {
+  LOG_EXPORT_FORMATS,
+  METRIC_BUCKET_SECONDS,
+  SERVICE_DOCUMENT_FORMATS,
+  SERVICE_TYPE_METRIC_FIELDS,
+  ServiceImportPlanItem,
+} from '../types/service.type.js';
 
 // Validation schemas
 const createServiceSchema = z.object({
@@ -35,6 +67,42 @@ const createServiceSchema = z.object({
     .optional(),
   resStatusApiUrl: z.string().url('Invalid API URL format'),
   resStatusApiKey: z.string().min(1, 'API key is required'),
+  syncIntervalSeconds: z
+    .number()
+    .int()
+    .min(60, 'Sync interval must be at least 60 seconds')
+    .max(86400, 'Sync interval cannot exceed 86400 seconds')
+    .nullable()
+    .optional(),
+  checkUrl: z.url('Invalid check URL format').nullable().optional(),
+  checkIntervalSeconds: z
+    .number()
+    .int()
+    .min(30, 'Check interval must be at least 30 seconds')
+    .max(86400, 'Check interval cannot exceed 86400 seconds')
+    .nullable()
+    .optional(),
+  rawRetentionDays: z
+    .number()
+    .int()
+    .min(1, 'Raw retention must be at least 1 day')
+    .max(3650, 'Raw retention cannot exceed 3650 days')
+    .nullable()
+    .optional(),
+  hourlyRetentionDays: z
+    .number()
+    .int()
+    .min(1, 'Hourly retention must be at least 1 day')
+    .max(3650, 'Hourly retention cannot exceed 3650 days')
+    .nullable()
+    .optional(),
+  dailyRetentionDays: z
+    .number()
+    .int()
+    .min(0, 'Daily retention must be 0 (forever) or more days')
+    .max(36500, 'Daily retention cannot exceed 36500 days')
+    .nullable()
+    .optional(),
 });
 
 const updateServiceSchema = z.object({
@@ -54,8 +122,333 @@ const updateServiceSchema = z.object({
     .optional(),
   resStatusApiUrl: z.url('Invalid API URL format').optional(),
   resStatusApiKey: z.string().min(1, 'API key is required').optional(),
+  syncIntervalSeconds: z
+    .number()
+    .int()
+    .min(60, 'Sync interval must be at least 60 seconds')
+    .max(86400, 'Sync interval cannot exceed 86400 seconds')
+    .nullable()
+    .optional(),
+  checkUrl: z.url('Invalid check URL format').nullable().optional(),
+  checkIntervalSeconds: z
+    .number()
+    .int()
+    .min(30, 'Check interval must be at least 30 seconds')
+    .max(86400, 'Check interval cannot exceed 86400 seconds')
+    .nullable()
+    .optional(),
+  rawRetentionDays: z
+    .number()
+    .int()
+    .min(1, 'Raw retention must be at least 1 day')
+    .max(3650, 'Raw retention cannot exceed 3650 days')
+    .nullable()
+    .optional(),
+  hourlyRetentionDays: z
+    .number()
+    .int()
+    .min(1, 'Hourly retention must be at least 1 day')
+    .max(3650, 'Hourly retention cannot exceed 3650 days')
+    .nullable()
+    .optional(),
+  dailyRetentionDays: z
+    .number()
+    .int()
+    .min(0, 'Daily retention must be 0 (forever) or more days')
+    .max(36500, 'Daily retention cannot exceed 36500 days')
+    .nullable()
+    .optional(),
+});
+
+const metricsQuerySchema = z.object({
+  metric: z.string().regex(/^[A-Za-z0-9_]+$/, 'Invalid metric name'),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  bucket: z.enum(['5m', '1h', '1d']).optional().default('1h'),
+});
+
+// Upper bound on buckets returned by one metrics request
+const MAX_METRIC_BUCKETS = 2000;
+
+const logExportQuerySchema = z.object({
+  format: z.enum(LOG_EXPORT_FORMATS).optional().default('csv'),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+// Upper bound on services exported together
+const MAX_EXPORT_SERVICES = 50;
+
+const multiLogExportQuerySchema = logExportQuerySchema.extend({
+  serviceIds: z
+    .string()
+    .transform((val) => val.split(',').map((id) => parseInt(id, 10)))
+    .pipe(
+      z
+        .array(z.number().int().positive())
+        .min(1)
+        .max(MAX_EXPORT_SERVICES, `At most ${MAX_EXPORT_SERVICES} services can be exported`)
+    ),
+});
+
+/**
+ * Stream the services' logs as a file download. The response starts before the first row is
+ * read, so errors after that can only be logged.
+ */
+function streamLogExport(
+  c: Context,
+  services: Service[],
+  { format, from, to }: z.infer<typeof logExportQuerySchema>,
+  filename: string
+) {
+  c.header('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson');
+  c.header('Content-Disposition', `attachment; filename="${filename}.${format}"`);
+
+  return stream(
+    c,
+    async (output) => {
+      for await (const line of exportServiceLogs(services, format, { from, to })) {
+        if (output.aborted) {
+          break;
+        }
+        await output.write(line);
+      }
+    },
+    async (error) => {
+      logger.error(`Error exporting service logs: ${error}`);
+    }
+  );
+}
+
+const serviceExportQuerySchema = z.object({
+  format: z.enum(SERVICE_DOCUMENT_FORMATS).optional().default('json'),
+  includeApiKeys: z
+    .enum(['true', 'false'])
+    .optional()
+    .default('false')
+    .transform((val) => val === 'true'),
+});
+
+const serviceImportQuerySchema = z.object({
+  dryRun: z
+    .enum(['true', 'false'])
+    .optional()
+    .default('false')
+    .transform((val) => val === 'true'),
+});
+
+// Upper bound on services in one import document
+const MAX_IMPORT_SERVICES = 500;
+
+// Entries are validated one by one so every invalid entry can be reported
+const serviceDocumentSchema = z.object({
+  version: z.literal(
+    SERVICE_DOCUMENT_VERSION,
+    `Unsupported document version, expected ${SERVICE_DOCUMENT_VERSION}`
+  ),
+  services: z
+    .array(z.unknown())
+    .min(1, 'At least one service is required')
+    .max(MAX_IMPORT_SERVICES, `At most ${MAX_IMPORT_SERVICES} services can be imported`),
+});
+
+// The API key may be given in plaintext or as exported; updates may omit it to keep the current one
+const importServiceSchema = createServiceSchema.extend({
+  resStatusApiKey: z.string().min(1, 'API key is required').optional(),
+  resStatusApiKeyEncrypted: z.string().min(1).optional(),
 });
 
+type ImportedService = Omit<
+  typeof servicesTable.$inferInsert,
+  'id' | 'resStatusApiKey' | 'resStatusApiKeyHint'
+>;
+
+type PlannedImport =
+  | (ServiceImportPlanItem & { action: 'invalid' })
+  | (ServiceImportPlanItem & {
+      action: 'create';
+      name: string;
+      values: ImportedService;
+      apiKey: string; // plaintext
+    })
+  | (ServiceImportPlanItem & {
+      action: 'update' | 'skip';
+      name: string;
+      values: ImportedService;
+      apiKey: string | null; // plaintext; null keeps the current key
+      existing: Service;
+    });
+
+/**
+ * Match document entries to existing services by name and decide what importing each would
+ * do. A document describes services in full, so fields an entry omits get the same defaults
+ * as when creating a service.
+ */
+function planServiceImport(entries: unknown[], services: Service[]): PlannedImport[] {
+  // Active services go in last, so they win over a deleted service with the same name
+  const servicesByName = new Map(
+    [
+      ...services.filter((service) => service.deletedAt),
+      ...services.filter((service) => !service.deletedAt),
+    ].map((service) => [service.name, service])
+  );
+  const seenNames = new Set<string>();
+
+  return entries.map((entry, index) => {
+    const parsed = importServiceSchema.safeParse(entry);
+
+    if (!parsed.success) {
+      const name = (entry as { name?: unknown } | null)?.name;
+      return {
+        index,
+        name: typeof name === 'string' ? name : null,
+        action: 'invalid',
+        errors: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+      };
+    }
+
+    const {
+      name,
+      description,
+      type,
+      status = 1,
+      resStatusApiUrl,
+      resStatusApiKey,
+      resStatusApiKeyEncrypted,
+      syncIntervalSeconds = null,
+      checkUrl = null,
+      checkIntervalSeconds = null,
+      rawRetentionDays = null,
+      hourlyRetentionDays = null,
+      dailyRetentionDays = null,
+    } = parsed.data;
+    const existing = servicesByName.get(name);
+    const errors: string[] = [];
+    let apiKey = resStatusApiKey ?? null;
+
+    if (seenNames.has(name)) {
+      errors.push('name: Appears more than once in the document');
+    }
+    seenNames.add(name);
+
+    if (existing?.deletedAt) {
+      errors.push('name: Used by a deleted service');
+    }
+
+    if (resStatusApiKey && resStatusApiKeyEncrypted) {
+      errors.push('resStatusApiKey: Set either resStatusApiKey or resStatusApiKeyEncrypted');
+    } else if (resStatusApiKeyEncrypted) {
+      try {
+        apiKey = decryptSecret(resStatusApiKeyEncrypted);
+      } catch {
+        errors.push("resStatusApiKeyEncrypted: Can't be decrypted with the configured keys");
+      }
+    }
+
+    if (errors.length > 0) {
+      return { index, name, action: 'invalid', errors };
+    }
+
+    const values: ImportedService = {
+      name,
+      description,
+      type,
+      status,
+      resStatusApiUrl,
+      syncIntervalSeconds,
+      checkUrl,
+      checkIntervalSeconds,
+      rawRetentionDays,
+      hourlyRetentionDays,
+      dailyRetentionDays,
+    };
+
+    if (!existing) {
+      return apiKey
+        ? { index, name, action: 'create', values, apiKey }
+        : { index, name, action: 'invalid', errors: ['resStatusApiKey: API key is required'] };
+    }
+
+    const changes: string[] = (Object.keys(values) as (keyof ImportedService)[]).filter(
+      (field) => values[field] !== existing[field]
+    );
+
+    if (apiKey && !isSameApiKey(existing.resStatusApiKey, apiKey)) {
+      changes.push('resStatusApiKey');
+    } else {
+      apiKey = null;
+    }
+
+    return {
+      index,
+      name,
+      action: changes.length > 0 ? 'update' : 'skip',
+      changes,
+      values,
+      apiKey,
+      existing,
+    };
+  });
+}
+
+// Columns returned by the API; secrets are never included, only their masked hints
+const serviceColumns = {
+  id: servicesTable.id,
+  name: servicesTable.name,
+  description: servicesTable.description,
+  type: servicesTable.type,
+  status: servicesTable.status,
+  resStatusApiUrl: servicesTable.resStatusApiUrl,
+  resStatusApiKeyHint: servicesTable.resStatusApiKeyHint,
+  syncIntervalSeconds: servicesTable.syncIntervalSeconds,
+  lastSyncedAt: servicesTable.lastSyncedAt,
+  checkUrl: servicesTable.checkUrl,
+  checkIntervalSeconds: servicesTable.checkIntervalSeconds,
+  ingestTokenHint: servicesTable.ingestTokenHint,
+  rawRetentionDays: servicesTable.rawRetentionDays,
+  hourlyRetentionDays: servicesTable.hourlyRetentionDays,
+  dailyRetentionDays: servicesTable.dailyRetentionDays,
+  createdAt: servicesTable.createdAt,
+  updatedAt: servicesTable.updatedAt,
+};
+
+// Columns allowed in the filter query parameter
+const serviceFilterWhitelist: FilterWhitelist = {
+  id: { column: servicesTable.id, type: 'number' },
+  name: { column: servicesTable.name, type: 'string' },
+  type: { column: servicesTable.type, type: 'number' },
+  status: { column: servicesTable.status, type: 'number' },
+  lastSyncedAt: { column: servicesTable.lastSyncedAt, type: 'date' },
+  createdAt: { column: servicesTable.createdAt, type: 'date' },
+  updatedAt: { column: servicesTable.updatedAt, type: 'date' },
+};
+
+const serviceLogFilterWhitelist: FilterWhitelist = {
+  id: { column: serviceLogsTable.id, type: 'number' },
+  recordId: { column: serviceLogsTable.recordId, type: 'number' },
+  recordedAt: { column: serviceLogsTable.recordedAt, type: 'date' },
+  createdAt: { column: serviceLogsTable.createdAt, type: 'date' },
+};
+
+// Rollups have no record id; recordedAt is the bucket start
+const serviceLogRollupFilterWhitelist: FilterWhitelist = {
+  id: { column: serviceLogRollupsTable.id, type: 'number' },
+  recordedAt: { column: serviceLogRollupsTable.bucketStart, type: 'date' },
+  createdAt: { column: serviceLogRollupsTable.createdAt, type: 'date' },
+};
+
+// Earliest upper bound a recordedAt filter puts on the requested logs
+function getRecordedBefore(appliedFilters: AppliedFilter[]) {
+  const bounds = appliedFilters
+    .filter(
+      (applied) =>
+        applied.column === 'recordedAt' && ['lt', 'lte', 'eq'].includes(applied.condition)
+    )
+    .map((applied) => new Date(applied.value).getTime());
+
+  return bounds.length > 0 ? new Date(Math.min(...bounds)) : null;
+}
+
 const serviceIdSchema = z.object({
   id: z
     .string()
@@ -65,162 +458,397 @@ const serviceIdSchema = z.object({
 
 // for service management CRUD
 export const serviceRoute = new Hono()
-  .use(authMiddleware)
+  .use(scopedAuthMiddleware)
   // Create service
-  .post('/', zValidator('json', createServiceSchema), async (c) => {
-    try {
-      const {
-        name,
-        description,
-        type,
-        status = 1,
-        resStatusApiUrl,
-        resStatusApiKey,
-      } = c.req.valid('json');
-
-      // Check if service with name already exists
-      const existingService = await db
-        .select()
-        .from(servicesTable)
-        .where(eq(servicesTable.name, name));
-
-      if (existingService.length > 0) {
-        return c.json({ message: 'Service with this name already exists.' }, 400);
+  .post(
+    '/',
+    requirePermission(PERMISSIONS.SERVICES_WRITE),
+    zValidator('json', createServiceSchema),
+    async (c) => {
+      try {
+        const {
+          name,
+          description,
+          type,
+          status = 1,
+          resStatusApiUrl,
+          resStatusApiKey,
+          syncIntervalSeconds = null,
+          checkUrl = null,
+          checkIntervalSeconds = null,
+          rawRetentionDays = null,
+          hourlyRetentionDays = null,
+          dailyRetentionDays = null,
+        } = c.req.valid('json');
+
+        // Check if service with name already exists
+        const existingService = await db
+          .select()
+          .from(servicesTable)
+          .where(eq(servicesTable.name, name));
+
+        if (existingService.length > 0) {
+          return c.json({ message: 'Service with this name already exists.' }, 400);
+        }
+
+        // Create service
+        await db.insert(servicesTable).values({
+          name,
+          description,
+          type,
+          status,
+          resStatusApiUrl,
+          resStatusApiKey: encryptSecret(resStatusApiKey),
+          resStatusApiKeyHint: maskSecret(resStatusApiKey),
+          syncIntervalSeconds,
+          checkUrl,
+          checkIntervalSeconds,
+          rawRetentionDays,
+          hourlyRetentionDays,
+          dailyRetentionDays,
+        });
+
+        const newService = await db
+          .select(serviceColumns)
+          .from(servicesTable)
+          .where(eq(servicesTable.name, name));
+
+        if (!newService[0]) {
+          return c.json({ message: 'Failed to create service.' }, 500);
+        }
+
+        await recordAuditLog(c, {
+          action: 'service.create',
+          entityType: 'service',
+          entityId: newService[0].id,
+          before: null,
+          after: newService[0],
+        });
+
+        return c.json(
+          {
+            success: true,
+            message: 'Service created successfully.',
+            data: newService[0],
+          },
+          201
+        );
+      } catch (error) {
+        logger.error(`Error creating service: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
+      }
+    }
+  )
+  // Get all services with pagination, search, and sorting
+  .get(
+    '/',
+    requirePermission(PERMISSIONS.SERVICES_READ),
+    zValidator('query', paginationSchema),
+    async (c) => {
+      try {
+        const { page, limit, search, sort_by, order, filter } = c.req.valid('query');
+        const { offset } = getPaginationParams(page, limit);
+
+        // Parse filter conditions
+        const parsedFilter = parseFilter(filter, serviceFilterWhitelist);
+
+        if (!parsedFilter.success) {
+          return c.json({ message: parsedFilter.message }, 400);
+        }
+
+        // Build search conditions
+        const searchConditions = search
+          ? or(
+              like(servicesTable.name, `%${search}%`),
+              like(servicesTable.description, `%${search}%`)
+            )
+          : undefined;
+
+        // Build where clause
+        const whereClause = and(
+          isNull(servicesTable.deletedAt),
+          searchConditions,
+          ...parsedFilter.conditions
+        );
+
+        // Get total count of services
+        const totalResult = await db
+          .select({ count: count() })
+          .from(servicesTable)
+          .where(whereClause);
+
+        const total = totalResult[0].count;
+
+        // Build order by clause
+        const orderBy =
+          order === 'desc'
+            ? desc(servicesTable[sort_by as keyof typeof servicesTable.$inferSelect])
+            : asc(servicesTable[sort_by as keyof typeof servicesTable.$inferSelect]);
+
+        // Get paginated services
+        const services = await db
+          .select(serviceColumns)
+          .from(servicesTable)
+          .where(whereClause)
+          .orderBy(orderBy)
+          .limit(limit)
+          .offset(offset);
+
+        const response = createPaginationResponse(
+          services,
+          total,
+          page,
+          limit,
+          search || '',
+          sort_by,
+          order,
+          parsedFilter.appliedFilters
+        );
+
+        return c.json(response);
+      } catch (error) {
+        logger.error(`Error fetching services: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
       }
+    }
+  )
+  // Export the logs of several services as CSV or NDJSON
+  .get(
+    '/logs/export',
+    requirePermission(PERMISSIONS.SERVICES_READ),
+    zValidator('query', multiLogExportQuerySchema),
+    async (c) => {
+      try {
+        const { serviceIds, ...query } = c.req.valid('query');
+
+        if (query.from && query.to && query.from >= query.to) {
+          return c.json({ message: 'The from date must be before the to date.' }, 400);
+        }
 
-      // Create service
-      await db.insert(servicesTable).values({
-        name,
-        description,
-        type,
-        status,
-        resStatusApiUrl,
-        resStatusApiKey,
-      });
+        const services = await db
+          .select()
+          .from(servicesTable)
+          .where(and(inArray(servicesTable.id, serviceIds), isNull(servicesTable.deletedAt)));
+
+        const missingIds = serviceIds.filter(
+          (id) => !services.some((service) => service.id === id)
+        );
 
-      const newService = await db.select().from(servicesTable).where(eq(servicesTable.name, name));
+        if (missingIds.length > 0) {
+          return c.json({ message: `Services not found: ${missingIds.join(', ')}.` }, 404);
+        }
 
-      if (!newService[0]) {
-        return c.json({ message: 'Failed to create service.' }, 500);
+        return streamLogExport(c, services, query, 'service-logs');
+      } catch (error) {
+        logger.error(`Error exporting service logs: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
       }
+    }
+  )
+  // Export all service definitions as a JSON or YAML document
+  .get(
+    '/export',
+    requirePermission(PERMISSIONS.SERVICES_READ),
+    zValidator('query', serviceExportQuerySchema),
+    async (c) => {
+      try {
+        const { format, includeApiKeys } = c.req.valid('query');
 
-      return c.json(
-        {
-          success: true,
-          message: 'Service created successfully.',
-          data: newService[0],
-        },
-        201
-      );
-    } catch (error) {
-      logger.error(`Error creating service: ${error}`);
-      return c.json({ message: 'Internal server error.' }, 500);
+        // API keys are secrets even when encrypted; only users who may set them can export them
+        if (includeApiKeys && !(await hasPermissions(c, PERMISSIONS.SERVICES_WRITE))) {
+          return c.json({ message: 'Forbidden.' }, 403);
+        }
+
+        const services = await db
+          .select()
+          .from(servicesTable)
+          .where(isNull(servicesTable.deletedAt))
+          .orderBy(asc(servicesTable.name));
+
+        const document = createServiceDocument(services, includeApiKeys);
+
+        await recordAuditLog(c, {
+          action: 'service.export',
+          entityType: 'service',
+          entityId: null,
+          after: { format, includeApiKeys, services: services.map((service) => service.id) },
+        });
+
+        c.header('Content-Disposition', `attachment; filename="services.${format}"`);
+        return c.body(serializeServiceDocument(document, format), 200, {
+          'Content-Type': format === 'yaml' ? 'application/yaml' : 'application/json',
+        });
+      } catch (error) {
+        logger.error(`Error exporting services: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
+      }
     }
-  })
-  // Get all services with pagination, search, and sorting
-  .get('/', zValidator('query', paginationSchema), async (c) => {
-    try {
-      const { page, limit, search, sort_by, order } = c.req.valid('query');
-      const { offset } = getPaginationParams(page, limit);
-
-      // Build search conditions
-      const searchConditions = search
-        ? or(
-            like(servicesTable.name, `%${search}%`),
-            like(servicesTable.description, `%${search}%`)
-          )
-        : undefined;
-
-      // Build where clause
-      const whereClause = searchConditions
-        ? and(isNull(servicesTable.deletedAt), searchConditions)
-        : isNull(servicesTable.deletedAt);
-
-      // Get total count of services
-      const totalResult = await db
-        .select({ count: count() })
-        .from(servicesTable)
-        .where(whereClause);
-
-      const total = totalResult[0].count;
-
-      // Build order by clause
-      const orderBy =
-        order === 'desc'
-          ? desc(servicesTable[sort_by as keyof typeof servicesTable.$inferSelect])
-          : asc(servicesTable[sort_by as keyof typeof servicesTable.$inferSelect]);
-
-      // Get paginated services
-      const services = await db
-        .select({
-          id: servicesTable.id,
-          name: servicesTable.name,
-          description: servicesTable.description,
-          type: servicesTable.type,
-          status: servicesTable.status,
-          resStatusApiUrl: servicesTable.resStatusApiUrl,
-          resStatusApiKey: servicesTable.resStatusApiKey,
-          createdAt: servicesTable.createdAt,
-          updatedAt: servicesTable.updatedAt,
-        })
-        .from(servicesTable)
-        .where(whereClause)
-        .orderBy(orderBy)
-        .limit(limit)
-        .offset(offset);
-
-      const response = createPaginationResponse(
-        services,
-        total,
-        page,
-        limit,
-        search || '',
-        sort_by,
-        order
-      );
-
-      return c.json(response);
-    } catch (error) {
-      logger.error(`Error fetching services: ${error}`);
-      return c.json({ message: 'Internal server error.' }, 500);
+  )
+  // Create or update services from an exported document, matched by name, in one transaction
+  .post(
+    '/import',
+    requirePermission(PERMISSIONS.SERVICES_WRITE),
+    bodyLimit({
+      maxSize: 2 * 1024 * 1024, // 2 MB
+      onError: (c) => c.json({ message: 'Payload too large.' }, 413),
+    }),
+    zValidator('query', serviceImportQuerySchema),
+    async (c) => {
+      try {
+        const { dryRun } = c.req.valid('query');
+
+        const body = parseServiceDocument(await c.req.text(), c.req.header('Content-Type'));
+
+        if (!body.success) {
+          return c.json({ message: body.message }, 400);
+        }
+
+        const document = serviceDocumentSchema.safeParse(body.data);
+
+        if (!document.success) {
+          return c.json(
+            {
+              message: document.error.issues
+                .map((issue) => `${issue.path.join('.') || 'document'}: ${issue.message}`)
+                .join(', '),
+            },
+            400
+          );
+        }
+
+        const services = await db.select().from(servicesTable);
+        const plan = planServiceImport(document.data.services, services);
+
+        const summary = { create: 0, update: 0, skip: 0, invalid: 0 };
+        for (const item of plan) {
+          summary[item.action]++;
+        }
+
+        const data = {
+          dryRun,
+          summary,
+          items: plan.map(({ index, name, action, changes, errors }): ServiceImportPlanItem => ({
+            index,
+            name,
+            action,
+            changes,
+            errors,
+          })),
+        };
+
+        if (dryRun) {
+          return c.json({ success: true, message: 'Service import planned.', data });
+        }
+
+        // Nothing is written unless every entry is valid
+        if (summary.invalid > 0) {
+          return c.json({ message: 'The document has invalid services.', data }, 400);
+        }
+
+        const updatedAt = new Date();
+        const createdIds: number[] = [];
+        const updated: { before: Service; after: Service }[] = [];
+
+        await db.transaction(async (tx) => {
+          for (const item of plan) {
+            if (item.action === 'create') {
+              const [{ id }] = await tx
+                .insert(servicesTable)
+                .values({
+                  ...item.values,
+                  resStatusApiKey: encryptSecret(item.apiKey),
+                  resStatusApiKeyHint: maskSecret(item.apiKey),
+                })
+                .$returningId();
+              createdIds.push(id);
+            } else if (item.action === 'update') {
+              const updateValues = {
+                ...item.values,
+                ...(item.apiKey && {
+                  resStatusApiKey: encryptSecret(item.apiKey),
+                  resStatusApiKeyHint: maskSecret(item.apiKey),
+                }),
+                updatedAt,
+              };
+
+              await tx
+                .update(servicesTable)
+                .set(updateValues)
+                .where(eq(servicesTable.id, item.existing.id));
+              updated.push({ before: item.existing, after: { ...item.existing, ...updateValues } });
+            }
+          }
+        });
+
+        const created =
+          createdIds.length > 0
+            ? await db
+                .select(serviceColumns)
+                .from(servicesTable)
+                .where(inArray(servicesTable.id, createdIds))
+            : [];
+
+        for (const service of created) {
+          await recordAuditLog(c, {
+            action: 'service.create',
+            entityType: 'service',
+            entityId: service.id,
+            before: null,
+            after: service,
+          });
+        }
+
+        for (const { before, after } of updated) {
+          await recordAuditLog(c, {
+            action: 'service.update',
+            entityType: 'service',
+            entityId: before.id,
+            before,
+            after,
+          });
+        }
+
+        return c.json({ success: true, message: 'Services imported successfully.', data });
+      } catch (error) {
+        logger.error(`Error importing services: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
+      }
     }
-  })
+  )
   // Get service by ID
-  .get('/:id', zValidator('param', serviceIdSchema), async (c) => {
-    try {
-      const { id } = c.req.valid('param');
-
-      const service = await db
-        .select({
-          id: servicesTable.id,
-          name: servicesTable.name,
-          description: servicesTable.description,
-          type: servicesTable.type,
-          status: servicesTable.status,
-          resStatusApiUrl: servicesTable.resStatusApiUrl,
-          resStatusApiKey: servicesTable.resStatusApiKey,
-          createdAt: servicesTable.createdAt,
-          updatedAt: servicesTable.updatedAt,
-        })
-        .from(servicesTable)
-        .where(and(eq(servicesTable.id, id), isNull(servicesTable.deletedAt)));
-
-      if (service.length === 0) {
-        return c.json({ message: 'Service not found.' }, 404);
-      }
+  .get(
+    '/:id',
+    requirePermission(PERMISSIONS.SERVICES_READ),
+    zValidator('param', serviceIdSchema),
+    async (c) => {
+      try {
+        const { id } = c.req.valid('param');
+
+        const service = await db
+          .select(serviceColumns)
+          .from(servicesTable)
+          .where(and(eq(servicesTable.id, id), isNull(servicesTable.deletedAt)));
+
+        if (service.length === 0) {
+          return c.json({ message: 'Service not found.' }, 404);
+        }
+
+        const uptime = await getUptimeSummary(id);
 
-      return c.json({
-        success: true,
-        data: service[0],
-      });
-    } catch (error) {
-      logger.error(`Error fetching service: ${error}`);
-      return c.json({ message: 'Internal server error.' }, 500);
+        return c.json({
+          success: true,
+          data: { ...service[0], uptime },
+        });
+      } catch (error) {
+        logger.error(`Error fetching service: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
+      }
     }
-  })
+  )
   // Update service
   .put(
     '/:id',
+    requirePermission(PERMISSIONS.SERVICES_WRITE),
     zValidator('param', serviceIdSchema),
     zValidator('json', updateServiceSchema),
     async (c) => {
@@ -276,14 +904,39 @@ export const serviceRoute = new Hono()
         }
 
         if (updateData.resStatusApiKey) {
-          updateValues.resStatusApiKey = updateData.resStatusApiKey;
+          updateValues.resStatusApiKey = encryptSecret(updateData.resStatusApiKey);
+          updateValues.resStatusApiKeyHint = maskSecret(updateData.resStatusApiKey);
+        }
+
+        if (updateData.syncIntervalSeconds !== undefined) {
+          updateValues.syncIntervalSeconds = updateData.syncIntervalSeconds;
+        }
+
+        if (updateData.checkUrl !== undefined) {
+          updateValues.checkUrl = updateData.checkUrl;
+        }
+
+        if (updateData.checkIntervalSeconds !== undefined) {
+          updateValues.checkIntervalSeconds = updateData.checkIntervalSeconds;
+        }
+
+        if (updateData.rawRetentionDays !== undefined) {
+          updateValues.rawRetentionDays = updateData.rawRetentionDays;
+        }
+
+        if (updateData.hourlyRetentionDays !== undefined) {
+          updateValues.hourlyRetentionDays = updateData.hourlyRetentionDays;
+        }
+
+        if (updateData.dailyRetentionDays !== undefined) {
+          updateValues.dailyRetentionDays = updateData.dailyRetentionDays;
         }
 
         // Update service
         await db.update(servicesTable).set(updateValues).where(eq(servicesTable.id, id));
 
         const updatedService = await db
-          .select()
+          .select(serviceColumns)
           .from(servicesTable)
           .where(eq(servicesTable.id, id));
 
@@ -291,6 +944,14 @@ export const serviceRoute = new Hono()
           return c.json({ message: 'Failed to update service.' }, 500);
         }
 
+        await recordAuditLog(c, {
+          action: 'service.update',
+          entityType: 'service',
+          entityId: id,
+          before: existingService[0],
+          after: { ...existingService[0], ...updateValues },
+        });
+
         return c.json({
           success: true,
           message: 'Service updated successfully.',
@@ -303,65 +964,154 @@ export const serviceRoute = new Hono()
     }
   )
   // Delete service (soft delete)
-  .delete('/:id', zValidator('param', serviceIdSchema), async (c) => {
-    try {
-      const { id } = c.req.valid('param');
-
-      // Check if service exists
-      const existingService = await db
-        .select()
-        .from(servicesTable)
-        .where(and(eq(servicesTable.id, id), isNull(servicesTable.deletedAt)));
-
-      if (existingService.length === 0) {
-        return c.json({ message: 'Service not found.' }, 404);
-      }
-
-      // Soft delete service
-      await db
-        .update(servicesTable)
-        .set({
-          deletedAt: new Date(),
-          updatedAt: new Date(),
-        })
-        .where(eq(servicesTable.id, id));
-
-      return c.json({
-        success: true,
-        message: 'Service deleted successfully.',
-      });
-    } catch (error) {
-      logger.error(`Error deleting service: ${error}`);
-      return c.json({ message: 'Internal server error.' }, 500);
-    }
-  })
-
-  // Get service logs by service ID with pagination
-  .get(
-    '/:id/logs',
+  .delete(
+    '/:id',
+    requirePermission(PERMISSIONS.SERVICES_WRITE),
     zValidator('param', serviceIdSchema),
-    zValidator('query', paginationSchema),
     async (c) => {
       try {
         const { id } = c.req.valid('param');
-        const { page, limit, sort_by, order } = c.req.valid('query');
-        const { offset } = getPaginationParams(page, limit);
 
         // Check if service exists
-        const service = await db
+        const existingService = await db
           .select()
           .from(servicesTable)
           .where(and(eq(servicesTable.id, id), isNull(servicesTable.deletedAt)));
 
-        if (service.length === 0) {
+        if (existingService.length === 0) {
           return c.json({ message: 'Service not found.' }, 404);
         }
 
-        // Get total count of service logs
-        const totalResult = await db
+        // Soft delete service
+        const deletedAt = new Date();
+        await db
+          .update(servicesTable)
+          .set({
+            deletedAt,
+            updatedAt: new Date(),
+          })
+          .where(eq(servicesTable.id, id));
+
+        await recordAuditLog(c, {
+          action: 'service.delete',
+          entityType: 'service',
+          entityId: id,
+          before: existingService[0],
+          after: { ...existingService[0], deletedAt },
+        });
+
+        return c.json({
+          success: true,
+          message: 'Service deleted successfully.',
+        });
+      } catch (error) {
+        logger.error(`Error deleting service: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
+      }
+    }
+  )
+
+  // Get service logs by service ID with pagination
+  .get(
+    '/:id/logs',
+    requirePermission(PERMISSIONS.SERVICES_READ),
+    zValidator('param', serviceIdSchema),
+    zValidator('query', paginationSchema),
+    async (c) => {
+      try {
+        const { id } = c.req.valid('param');
+        const { page, limit, sort_by, order, filter } = c.req.valid('query');
+        const { offset } = getPaginationParams(page, limit);
+
+        // Parse filter conditions
+        const parsedFilter = parseFilter(filter, serviceLogFilterWhitelist);
+
+        if (!parsedFilter.success) {
+          return c.json({ message: parsedFilter.message }, 400);
+        }
+
+        // Check if service exists
+        const service = await db
+          .select()
+          .from(servicesTable)
+          .where(and(eq(servicesTable.id, id), isNull(servicesTable.deletedAt)));
+
+        if (service.length === 0) {
+          return c.json({ message: 'Service not found.' }, 404);
+        }
+
+        // Ranges ending before raw retention are served from the hourly or daily rollups
+        const resolution = getLogResolution(
+          service[0],
+          getRecordedBefore(parsedFilter.appliedFilters)
+        );
+
+        if (resolution !== 'raw') {
+          const rollupFilter = parseFilter(filter, serviceLogRollupFilterWhitelist);
+
+          if (!rollupFilter.success) {
+            return c.json({ message: rollupFilter.message }, 400);
+          }
+
+          const rollupWhere = and(
+            eq(serviceLogRollupsTable.serviceId, id),
+            eq(serviceLogRollupsTable.resolution, resolution),
+            ...rollupFilter.conditions
+          );
+
+          const rollupTotal = await db
+            .select({ count: count() })
+            .from(serviceLogRollupsTable)
+            .where(rollupWhere);
+
+          const sortColumn =
+            sort_by === 'recordedAt'
+              ? serviceLogRollupsTable.bucketStart
+              : serviceLogRollupsTable[sort_by as keyof typeof serviceLogRollupsTable.$inferSelect];
+
+          const rollups = await db
+            .select({
+              id: serviceLogRollupsTable.id,
+              serviceId: serviceLogRollupsTable.serviceId,
+              data: serviceLogRollupsTable.data,
+              recordId: sql<null>`NULL`,
+              recordedAt: serviceLogRollupsTable.bucketStart,
+              sampleCount: serviceLogRollupsTable.sampleCount,
+              createdAt: serviceLogRollupsTable.createdAt,
+              updatedAt: serviceLogRollupsTable.updatedAt,
+            })
+            .from(serviceLogRollupsTable)
+            .where(rollupWhere)
+            .orderBy(order === 'desc' ? desc(sortColumn) : asc(sortColumn))
+            .limit(limit)
+            .offset(offset);
+
+          return c.json({
+            ...createPaginationResponse(
+              rollups,
+              rollupTotal[0].count,
+              page,
+              limit,
+              '',
+              sort_by,
+              order,
+              rollupFilter.appliedFilters
+            ),
+            resolution,
+          });
+        }
+
+        const whereClause = and(
+          eq(serviceLogsTable.serviceId, id),
+          isNull(serviceLogsTable.deletedAt),
+          ...parsedFilter.conditions
+        );
+
+        // Get total count of service logs
+        const totalResult = await db
           .select({ count: count() })
           .from(serviceLogsTable)
-          .where(and(eq(serviceLogsTable.serviceId, id), isNull(serviceLogsTable.deletedAt)));
+          .where(whereClause);
 
         const total = totalResult[0].count;
 
@@ -383,7 +1133,7 @@ export const serviceRoute = new Hono()
             updatedAt: serviceLogsTable.updatedAt,
           })
           .from(serviceLogsTable)
-          .where(and(eq(serviceLogsTable.serviceId, id), isNull(serviceLogsTable.deletedAt)))
+          .where(whereClause)
           .orderBy(orderBy)
           .limit(limit)
           .offset(offset);
@@ -395,10 +1145,11 @@ export const serviceRoute = new Hono()
           limit,
           '',
           sort_by,
-          order
+          order,
+          parsedFilter.appliedFilters
         );
 
-        return c.json(response);
+        return c.json({ ...response, resolution });
       } catch (error) {
         logger.error(`Error fetching service logs: ${error}`);
         return c.json({ message: 'Internal server error.' }, 500);
@@ -406,94 +1157,373 @@ export const serviceRoute = new Hono()
     }
   )
 
-  .post('/:id/sync-logs', zValidator('param', serviceIdSchema), async (c) => {
-    try {
-      const { id } = c.req.valid('param');
-      // get service by id
-      const services = await db
-        .select()
-        .from(servicesTable)
-        .where(and(eq(servicesTable.id, id), isNull(servicesTable.deletedAt)));
-
-      if (services.length === 0) {
-        return c.json({ message: 'Service not found.' }, 404);
+  // Export the service's logs as CSV or NDJSON
+  .get(
+    '/:id/logs/export',
+    requirePermission(PERMISSIONS.SERVICES_READ),
+    zValidator('param', serviceIdSchema),
+    zValidator('query', logExportQuerySchema),
+    async (c) => {
+      try {
+        const { id } = c.req.valid('param');
+        const query = c.req.valid('query');
+
+        if (query.from && query.to && query.from >= query.to) {
+          return c.json({ message: 'The from date must be before the to date.' }, 400);
+        }
+
+        const service = await db
+          .select()
+          .from(servicesTable)
+          .where(and(eq(servicesTable.id, id), isNull(servicesTable.deletedAt)));
+
+        if (service.length === 0) {
+          return c.json({ message: 'Service not found.' }, 404);
+        }
+
+        return streamLogExport(c, service, query, `service-${id}-logs`);
+      } catch (error) {
+        logger.error(`Error exporting service logs: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
       }
+    }
+  )
+  // Get time-bucketed min/max/avg/last of one metric from service logs
+  .get(
+    '/:id/metrics',
+    requirePermission(PERMISSIONS.SERVICES_READ),
+    zValidator('param', serviceIdSchema),
+    zValidator('query', metricsQuerySchema),
+    async (c) => {
+      try {
+        const { id } = c.req.valid('param');
+        const { metric, bucket, ...range } = c.req.valid('query');
 
-      const service = services[0];
+        const to = range.to ?? new Date();
+        const from = range.from ?? new Date(to.getTime() - 24 * 60 * 60 * 1000);
+        const bucketSeconds = METRIC_BUCKET_SECONDS[bucket];
 
-      // check type of service
-      let isConfigureToSyncLogs = false;
+        if (from >= to) {
+          return c.json({ message: 'The from date must be before the to date.' }, 400);
+        }
 
-      // check if service is shared hosting and is configured to sync logs
-      if (service.type === SERVICE_TYPE.SHARED_HOSTING) {
-        isConfigureToSyncLogs = true;
+        if ((to.getTime() - from.getTime()) / 1000 / bucketSeconds > MAX_METRIC_BUCKETS) {
+          return c.json(
+            { message: `Time range is too large for ${bucket} buckets. Use a larger bucket.` },
+            400
+          );
+        }
 
-        try {
-          // fetch histroy from res status api and it api key
-          const history = await fetch(`${service.resStatusApiUrl}/resource-usage/history`, {
-            headers: {
-              'x-api-key': service.resStatusApiKey,
-            },
-          });
+        // Check if service exists
+        const service = await db
+          .select()
+          .from(servicesTable)
+          .where(and(eq(servicesTable.id, id), isNull(servicesTable.deletedAt)));
 
-          if (!history.ok) {
-            return c.json({ message: 'Failed to fetch history from res status api.' }, 500);
-          }
+        if (service.length === 0) {
+          return c.json({ message: 'Service not found.' }, 404);
+        }
 
-          const historyData: SharedHostingHistoryResponse = await history.json();
+        const metricFields = SERVICE_TYPE_METRIC_FIELDS[service[0].type] ?? [];
 
-          if (!historyData.success) {
-            return c.json({ message: 'Failed to fetch history from res status api.' }, 500);
-          }
+        if (!metricFields.includes(metric)) {
+          return c.json(
+            { message: `Unknown metric. Available metrics: ${metricFields.join(', ')}.` },
+            400
+          );
+        }
 
-          const historyDataList = historyData.data;
+        const { resolutions, buckets } = await getMetricBuckets(
+          service[0],
+          metric,
+          from,
+          to,
+          bucketSeconds
+        );
 
-          const listRecordIds = historyDataList.map((historyData) => historyData.id);
+        return c.json({
+          success: true,
+          data: {
+            metric,
+            bucket,
+            from: from.toISOString(),
+            to: to.toISOString(),
+            resolutions,
+            buckets,
+          },
+        });
+      } catch (error) {
+        logger.error(`Error fetching service metrics: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
+      }
+    }
+  )
+  // Get the service's retention policy and a dry-run report of what the retention job would do
+  .get(
+    '/:id/retention',
+    requirePermission(PERMISSIONS.SERVICES_READ),
+    zValidator('param', serviceIdSchema),
+    async (c) => {
+      try {
+        const { id } = c.req.valid('param');
+
+        const service = await db
+          .select()
+          .from(servicesTable)
+          .where(and(eq(servicesTable.id, id), isNull(servicesTable.deletedAt)));
+
+        if (service.length === 0) {
+          return c.json({ message: 'Service not found.' }, 404);
+        }
+
+        return c.json({
+          success: true,
+          data: await applyLogRetention(service[0], { dryRun: true }),
+        });
+      } catch (error) {
+        logger.error(`Error fetching service retention report: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
+      }
+    }
+  )
+
+  .post(
+    '/:id/sync-logs',
+    requirePermission(PERMISSIONS.SERVICES_SYNC),
+    zValidator('param', serviceIdSchema),
+    async (c) => {
+      try {
+        const { id } = c.req.valid('param');
+        // get service by id
+        const services = await db
+          .select()
+          .from(servicesTable)
+          .where(and(eq(servicesTable.id, id), isNull(servicesTable.deletedAt)));
+
+        if (services.length === 0) {
+          return c.json({ message: 'Service not found.' }, 404);
+        }
+
+        const result = await syncServiceLogs(services[0]);
+
+        if (!result.success) {
+          return c.json({ message: result.message }, result.status);
+        }
 
-          // get list of record ids from service logs table
-          const listRecordIdsResponse = await db
-            .select({ recordId: serviceLogsTable.recordId })
-            .from(serviceLogsTable)
-            .where(
-              and(
-                eq(serviceLogsTable.serviceId, service.id),
-                inArray(serviceLogsTable.recordId, listRecordIds)
+        return c.json({
+          success: true,
+          message: 'Service logs synced successfully.',
+          data: result.data,
+        });
+      } catch (error) {
+        logger.error(`Error syncing service logs: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
+      }
+    }
+  )
+  // Generate a new push ingest token, replacing the current one
+  .post(
+    '/:id/ingest-token',
+    requirePermission(PERMISSIONS.SERVICES_WRITE),
+    zValidator('param', serviceIdSchema),
+    async (c) => {
+      try {
+        const { id } = c.req.valid('param');
+
+        const existingService = await db
+          .select()
+          .from(servicesTable)
+          .where(and(eq(servicesTable.id, id), isNull(servicesTable.deletedAt)));
+
+        if (existingService.length === 0) {
+          return c.json({ message: 'Service not found.' }, 404);
+        }
+
+        const { token, ingestTokenHash, ingestTokenHint } = createIngestToken();
+
+        await db
+          .update(servicesTable)
+          .set({ ingestTokenHash, ingestTokenHint, updatedAt: new Date() })
+          .where(eq(servicesTable.id, id));
+
+        await recordAuditLog(c, {
+          action: 'service.update',
+          entityType: 'service',
+          entityId: id,
+          before: existingService[0],
+          after: { ...existingService[0], ingestTokenHash, ingestTokenHint },
+        });
+
+        return c.json({
+          success: true,
+          message: 'Ingest token generated. Copy it now, it will not be shown again.',
+          data: { token, ingestTokenHint },
+        });
+      } catch (error) {
+        logger.error(`Error generating ingest token: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
+      }
+    }
+  )
+  // Remove the push ingest token, disabling push ingestion for the service
+  .delete(
+    '/:id/ingest-token',
+    requirePermission(PERMISSIONS.SERVICES_WRITE),
+    zValidator('param', serviceIdSchema),
+    async (c) => {
+      try {
+        const { id } = c.req.valid('param');
+
+        const existingService = await db
+          .select()
+          .from(servicesTable)
+          .where(and(eq(servicesTable.id, id), isNull(servicesTable.deletedAt)));
+
+        if (existingService.length === 0) {
+          return c.json({ message: 'Service not found.' }, 404);
+        }
+
+        await db
+          .update(servicesTable)
+          .set({ ingestTokenHash: null, ingestTokenHint: null, updatedAt: new Date() })
+          .where(eq(servicesTable.id, id));
+
+        await recordAuditLog(c, {
+          action: 'service.update',
+          entityType: 'service',
+          entityId: id,
+          before: existingService[0],
+          after: { ...existingService[0], ingestTokenHash: null, ingestTokenHint: null },
+        });
+
+        return c.json({
+          success: true,
+          message: 'Ingest token removed.',
+        });
+      } catch (error) {
+        logger.error(`Error removing ingest token: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
+      }
+    }
+  )
+  // Get uptime check results by service ID with pagination
+  .get(
+    '/:id/checks',
+    requirePermission(PERMISSIONS.SERVICES_READ),
+    zValidator('param', serviceIdSchema),
+    zValidator('query', paginationSchema),
+    async (c) => {
+      try {
+        const { id } = c.req.valid('param');
+        const { page, limit, sort_by, order } = c.req.valid('query');
+        const { offset } = getPaginationParams(page, limit);
+
+        // Check if service exists
+        const service = await db
+          .select()
+          .from(servicesTable)
+          .where(and(eq(servicesTable.id, id), isNull(servicesTable.deletedAt)));
+
+        if (service.length === 0) {
+          return c.json({ message: 'Service not found.' }, 404);
+        }
+
+        // Get total count of check results
+        const totalResult = await db
+          .select({ count: count() })
+          .from(serviceCheckResultsTable)
+          .where(eq(serviceCheckResultsTable.serviceId, id));
+
+        const total = totalResult[0].count;
+
+        // Build order by clause
+        const orderBy =
+          order === 'desc'
+            ? desc(
+                serviceCheckResultsTable[
+                  sort_by as keyof typeof serviceCheckResultsTable.$inferSelect
+                ]
               )
-            );
+            : asc(
+                serviceCheckResultsTable[
+                  sort_by as keyof typeof serviceCheckResultsTable.$inferSelect
+                ]
+              );
+
+        // Get paginated check results
+        const checks = await db
+          .select()
+          .from(serviceCheckResultsTable)
+          .where(eq(serviceCheckResultsTable.serviceId, id))
+          .orderBy(orderBy)
+          .limit(limit)
+          .offset(offset);
 
-          // filter list of record ids that are not in the list of record ids from service logs table
-          const listRecordIdsToInsert = historyDataList.filter(
-            (record) => !listRecordIdsResponse.some((response) => response.recordId === record.id)
-          );
+        const response = createPaginationResponse(checks, total, page, limit, '', sort_by, order);
 
-          const valuesToInsert = listRecordIdsToInsert.map((record) => ({
-            serviceId: service.id,
-            recordId: record.id,
-            data: record,
-            recordedAt: new Date(record.checked_at),
-          }));
+        return c.json(response);
+      } catch (error) {
+        logger.error(`Error fetching service checks: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
+      }
+    }
+  )
+  // Get uptime percentages for the last 24h, 7d and 30d
+  .get(
+    '/:id/checks/summary',
+    requirePermission(PERMISSIONS.SERVICES_READ),
+    zValidator('param', serviceIdSchema),
+    async (c) => {
+      try {
+        const { id } = c.req.valid('param');
 
-          if (valuesToInsert.length > 0) {
-            // insert into service logs table
-            await db.insert(serviceLogsTable).values(valuesToInsert);
-          }
+        const service = await db
+          .select()
+          .from(servicesTable)
+          .where(and(eq(servicesTable.id, id), isNull(servicesTable.deletedAt)));
 
-          return c.json({
-            success: true,
-            message: 'Service logs synced successfully.',
-            data: valuesToInsert,
-          });
-        } catch (error) {
-          logger.error(`Error fetching history from res status api: ${error}`);
-          return c.json({ message: 'Internal server error.' }, 500);
+        if (service.length === 0) {
+          return c.json({ message: 'Service not found.' }, 404);
         }
+
+        return c.json({
+          success: true,
+          data: await getUptimeSummary(id),
+        });
+      } catch (error) {
+        logger.error(`Error fetching service uptime summary: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
       }
+    }
+  )
+  // Run an uptime check now
+  .post(
+    '/:id/checks',
+    requirePermission(PERMISSIONS.SERVICES_SYNC),
+    zValidator('param', serviceIdSchema),
+    async (c) => {
+      try {
+        const { id } = c.req.valid('param');
 
-      if (!isConfigureToSyncLogs) {
-        return c.json({ message: 'Service is not configured to sync logs.' }, 400);
+        const service = await db
+          .select()
+          .from(servicesTable)
+          .where(and(eq(servicesTable.id, id), isNull(servicesTable.deletedAt)));
+
+        if (service.length === 0) {
+          return c.json({ message: 'Service not found.' }, 404);
+        }
+
+        const result = await runUptimeCheck(service[0]);
+
+        return c.json({
+          success: true,
+          message: 'Uptime check completed.',
+          data: result,
+        });
+      } catch (error) {
+        logger.error(`Error running uptime check: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
       }
-    } catch (error) {
-      logger.error(`Error syncing service logs: ${error}`);
-      return c.json({ message: 'Internal server error.' }, 500);
     }
-  });
+  );
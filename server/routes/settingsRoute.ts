@@ -0,0 +1,58 @@
+import { zValidator } from '@hono/zod-validator';
+import { Hono } from 'hono';
+import { z } from 'zod';
+
+import { recordAuditLog } from '../lib/auditLog.js';
+import { logger } from '../lib/logger.js';
+import { getAppSettings, updateAppSettings } from '../lib/settings.js';
+import { scopedAuthMiddleware } from '../middleware/jwt.js';
+import { requirePermission } from '../middleware/permission.js';
+import { PERMISSIONS } from '../types/permission.type.js';
+
+// Validation schemas
+const updateSettingsSchema = z.object({
+  requireTwoFactor: z.boolean().optional(),
+});
+
+// for application-wide settings such as requiring 2FA for every user
+export const settingsRoute = new Hono()
+  .use(scopedAuthMiddleware)
+  .get('/', requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (c) => {
+    try {
+      return c.json({
+        success: true,
+        data: await getAppSettings(),
+      });
+    } catch (error) {
+      logger.error(`Error fetching settings: ${error}`);
+      return c.json({ message: 'Internal server error.' }, 500);
+    }
+  })
+  .put(
+    '/',
+    requirePermission(PERMISSIONS.SETTINGS_MANAGE),
+    zValidator('json', updateSettingsSchema),
+    async (c) => {
+      try {
+        const before = await getAppSettings();
+        const settings = await updateAppSettings(c.req.valid('json'));
+
+        await recordAuditLog(c, {
+          action: 'settings.update',
+          entityType: 'settings',
+          entityId: null,
+          before,
+          after: settings,
+        });
+
+        return c.json({
+          success: true,
+          message: 'Settings updated successfully.',
+          data: settings,
+        });
+      } catch (error) {
+        logger.error(`Error updating settings: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
+      }
+    }
+  );
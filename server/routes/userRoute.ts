@@ -1,5 +1,4 @@
 import { zValidator } from '@hono/zod-validator';
-import bcrypt from 'bcryptjs';
 import { asc, desc, isNull, like, or } from 'drizzle-orm';
 import { eq } from 'drizzle-orm';
 import { and } from 'drizzle-orm';
@@ -9,31 +8,52 @@ import { Hono } from 'hono';
 import { z } from 'zod';
 
 import { db } from '../db/database.js';
-import { usersTable } from '../db/schema/schema.js';
-import env from '../lib/env.js';
+import { rolesTable, usersTable } from '../db/schema/schema.js';
+import { recordAuditLog } from '../lib/auditLog.js';
+import { FilterWhitelist, parseFilter } from '../lib/filter.js';
 import { logger } from '../lib/logger.js';
+import { unlockUser } from '../lib/loginThrottle.js';
 import {
   createPaginationResponse,
   getPaginationParams,
   paginationSchema,
 } from '../lib/pagination.js';
-import authMiddleware from '../middleware/jwt.js';
-
-const hashSalt = env.HASH_SALT;
+import { hashPassword } from '../lib/password.js';
+import { revokeUserSessions } from '../lib/sessions.js';
+import { scopedAuthMiddleware } from '../middleware/jwt.js';
+import { requirePermission } from '../middleware/permission.js';
+import { PERMISSIONS, ROLE } from '../types/permission.type.js';
 
 // Validation schemas
 const createUserSchema = z.object({
   name: z.string().min(3, 'Name must be at least 3 characters'),
   email: z.string().email('Invalid email format'),
   password: z.string().min(6, 'Password must be at least 6 characters'),
+  roleId: z.number().int().positive().optional(),
 });
 
 const updateUserSchema = z.object({
   name: z.string().min(3, 'Name must be at least 3 characters').optional(),
   email: z.string().email('Invalid email format').optional(),
   password: z.string().min(6, 'Password must be at least 6 characters').optional(),
+  roleId: z.number().int().positive().optional(),
 });
 
+// Columns allowed in the filter query parameter
+const userFilterWhitelist: FilterWhitelist = {
+  id: { column: usersTable.id, type: 'number' },
+  name: { column: usersTable.name, type: 'string' },
+  email: { column: usersTable.email, type: 'string' },
+  roleId: { column: usersTable.roleId, type: 'number' },
+  createdAt: { column: usersTable.createdAt, type: 'date' },
+  updatedAt: { column: usersTable.updatedAt, type: 'date' },
+};
+
+async function roleExists(id: number) {
+  const role = await db.select({ id: rolesTable.id }).from(rolesTable).where(eq(rolesTable.id, id));
+  return role.length > 0;
+}
+
 const userIdSchema = z.object({
   id: z
     .string()
@@ -43,142 +63,191 @@ const userIdSchema = z.object({
 
 // for user management CRUD
 export const userRoute = new Hono()
-  .use(authMiddleware)
+  .use(scopedAuthMiddleware)
   // Create user
-  .post('/', zValidator('json', createUserSchema), async (c) => {
-    try {
-      const { name, email, password } = c.req.valid('json');
+  .post(
+    '/',
+    requirePermission(PERMISSIONS.USERS_WRITE),
+    zValidator('json', createUserSchema),
+    async (c) => {
+      try {
+        const { name, email, password, roleId = ROLE.VIEWER } = c.req.valid('json');
 
-      // Check if user with email already exists
-      const existingUser = await db.select().from(usersTable).where(eq(usersTable.email, email));
+        if (!(await roleExists(roleId))) {
+          return c.json({ message: 'Role not found.' }, 400);
+        }
 
-      if (existingUser.length > 0) {
-        return c.json({ message: 'User with this email already exists.' }, 400);
-      }
+        // Check if user with email already exists
+        const existingUser = await db.select().from(usersTable).where(eq(usersTable.email, email));
+
+        if (existingUser.length > 0) {
+          return c.json({ message: 'User with this email already exists.' }, 400);
+        }
 
-      // Hash password
-      const hashedPassword = await bcrypt.hash(password, hashSalt ?? 'salt');
+        // Hash password
+        const hashedPassword = await hashPassword(password);
 
-      // Create user
-      await db.insert(usersTable).values({
-        name,
-        email,
-        password: hashedPassword,
-      });
+        // Create user
+        await db.insert(usersTable).values({
+          name,
+          email,
+          password: hashedPassword,
+          roleId,
+        });
 
-      const newUser = await db.select().from(usersTable).where(eq(usersTable.email, email));
+        const newUser = await db.select().from(usersTable).where(eq(usersTable.email, email));
 
-      if (!newUser[0]) {
-        return c.json({ message: 'Failed to create user.' }, 500);
-      }
+        if (!newUser[0]) {
+          return c.json({ message: 'Failed to create user.' }, 500);
+        }
 
-      // Remove password from response
-      // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      const { password: _password, ...userWithoutPassword } = newUser[0];
+        await recordAuditLog(c, {
+          action: 'user.create',
+          entityType: 'user',
+          entityId: newUser[0].id,
+          before: null,
+          after: newUser[0],
+        });
 
-      return c.json(
-        {
-          success: true,
-          message: 'User created successfully.',
-          data: userWithoutPassword,
-        },
-        201
-      );
-    } catch (error) {
-      logger.error(`Error creating user: ${error}`);
-      return c.json({ message: 'Internal server error.' }, 500);
+        // Remove password and 2FA secret from response
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { password: _password, totpSecret: _secret, ...userWithoutPassword } = newUser[0];
+
+        return c.json(
+          {
+            success: true,
+            message: 'User created successfully.',
+            data: userWithoutPassword,
+          },
+          201
+        );
+      } catch (error) {
+        logger.error(`Error creating user: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
+      }
     }
-  })
+  )
   // Get all users with pagination, search, and sorting
-  .get('/', zValidator('query', paginationSchema), async (c) => {
-    try {
-      const { page, limit, search, sort_by, order } = c.req.valid('query');
-      const { offset } = getPaginationParams(page, limit);
-
-      // Build search conditions
-      const searchConditions = search
-        ? or(like(usersTable.name, `%${search}%`), like(usersTable.email, `%${search}%`))
-        : undefined;
-
-      // Build where clause
-      const whereClause = searchConditions
-        ? and(isNull(usersTable.deletedAt), searchConditions)
-        : isNull(usersTable.deletedAt);
-
-      // Get total count of users
-      const totalResult = await db.select({ count: count() }).from(usersTable).where(whereClause);
-
-      const total = totalResult[0].count;
-
-      // Build order by clause
-      const orderBy =
-        order === 'desc'
-          ? desc(usersTable[sort_by as keyof typeof usersTable.$inferSelect])
-          : asc(usersTable[sort_by as keyof typeof usersTable.$inferSelect]);
-
-      // Get paginated users
-      const users = await db
-        .select({
-          id: usersTable.id,
-          name: usersTable.name,
-          email: usersTable.email,
-          createdAt: usersTable.createdAt,
-          updatedAt: usersTable.updatedAt,
-        })
-        .from(usersTable)
-        .where(whereClause)
-        .orderBy(orderBy)
-        .limit(limit)
-        .offset(offset);
-
-      const response = createPaginationResponse(
-        users,
-        total,
-        page,
-        limit,
-        search || '',
-        sort_by,
-        order
-      );
-
-      return c.json(response);
-    } catch (error) {
-      logger.error(`Error fetching users: ${error}`);
-      return c.json({ message: 'Internal server error.' }, 500);
+  .get(
+    '/',
+    requirePermission(PERMISSIONS.USERS_READ),
+    zValidator('query', paginationSchema),
+    async (c) => {
+      try {
+        const { page, limit, search, sort_by, order, filter } = c.req.valid('query');
+        const { offset } = getPaginationParams(page, limit);
+
+        // Parse filter conditions
+        const parsedFilter = parseFilter(filter, userFilterWhitelist);
+
+        if (!parsedFilter.success) {
+          return c.json({ message: parsedFilter.message }, 400);
+        }
+
+        // Build search conditions
+        const searchConditions = search
+          ? or(like(usersTable.name, `%${search}%`), like(usersTable.email, `%${search}%`))
+          : undefined;
+
+        // Build where clause
+        const whereClause = and(
+          isNull(usersTable.deletedAt),
+          searchConditions,
+          ...parsedFilter.conditions
+        );
+
+        // Get total count of users
+        const totalResult = await db.select({ count: count() }).from(usersTable).where(whereClause);
+
+        const total = totalResult[0].count;
+
+        // Build order by clause
+        const orderBy =
+          order === 'desc'
+            ? desc(usersTable[sort_by as keyof typeof usersTable.$inferSelect])
+            : asc(usersTable[sort_by as keyof typeof usersTable.$inferSelect]);
+
+        // Get paginated users
+        const users = await db
+          .select({
+            id: usersTable.id,
+            name: usersTable.name,
+            email: usersTable.email,
+            roleId: usersTable.roleId,
+            role: rolesTable.name,
+            lockedUntil: usersTable.lockedUntil,
+            totpEnabledAt: usersTable.totpEnabledAt,
+            createdAt: usersTable.createdAt,
+            updatedAt: usersTable.updatedAt,
+          })
+          .from(usersTable)
+          .leftJoin(rolesTable, eq(usersTable.roleId, rolesTable.id))
+          .where(whereClause)
+          .orderBy(orderBy)
+          .limit(limit)
+          .offset(offset);
+
+        const response = createPaginationResponse(
+          users,
+          total,
+          page,
+          limit,
+          search || '',
+          sort_by,
+          order,
+          parsedFilter.appliedFilters
+        );
+
+        return c.json(response);
+      } catch (error) {
+        logger.error(`Error fetching users: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
+      }
     }
-  })
+  )
   // Get user by ID
-  .get('/:id', zValidator('param', userIdSchema), async (c) => {
-    try {
-      const { id } = c.req.valid('param');
-
-      const user = await db
-        .select({
-          id: usersTable.id,
-          name: usersTable.name,
-          email: usersTable.email,
-          createdAt: usersTable.createdAt,
-          updatedAt: usersTable.updatedAt,
-        })
-        .from(usersTable)
-        .where(and(eq(usersTable.id, id), isNull(usersTable.deletedAt)));
-
-      if (user.length === 0) {
-        return c.json({ message: 'User not found.' }, 404);
-      }
+  .get(
+    '/:id',
+    requirePermission(PERMISSIONS.USERS_READ),
+    zValidator('param', userIdSchema),
+    async (c) => {
+      try {
+        const { id } = c.req.valid('param');
+
+        const user = await db
+          .select({
+            id: usersTable.id,
+            name: usersTable.name,
+            email: usersTable.email,
+            roleId: usersTable.roleId,
+            role: rolesTable.name,
+            lockedUntil: usersTable.lockedUntil,
+            totpEnabledAt: usersTable.totpEnabledAt,
+            createdAt: usersTable.createdAt,
+            updatedAt: usersTable.updatedAt,
+          })
+          .from(usersTable)
+          .leftJoin(rolesTable, eq(usersTable.roleId, rolesTable.id))
+          .where(and(eq(usersTable.id, id), isNull(usersTable.deletedAt)));
+
+        if (user.length === 0) {
+          return c.json({ message: 'User not found.' }, 404);
+        }
 
-      return c.json({
-        success: true,
-        data: user[0],
-      });
-    } catch (error) {
-      logger.error(`Error fetching user: ${error}`);
-      return c.json({ message: 'Internal server error.' }, 500);
+        return c.json({
+          success: true,
+          data: user[0],
+        });
+      } catch (error) {
+        logger.error(`Error fetching user: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
+      }
     }
-  })
+  )
   // Update user
   .put(
     '/:id',
+    requirePermission(PERMISSIONS.USERS_WRITE),
     zValidator('param', userIdSchema),
     zValidator('json', updateUserSchema),
     async (c) => {
@@ -221,8 +290,15 @@ export const userRoute = new Hono()
           updateValues.email = updateData.email;
         }
 
+        if (updateData.roleId !== undefined) {
+          if (!(await roleExists(updateData.roleId))) {
+            return c.json({ message: 'Role not found.' }, 400);
+          }
+          updateValues.roleId = updateData.roleId;
+        }
+
         if (updateData.password) {
-          updateValues.password = await bcrypt.hash(updateData.password, hashSalt ?? 'salt');
+          updateValues.password = await hashPassword(updateData.password);
         }
 
         // Update user
@@ -234,8 +310,16 @@ export const userRoute = new Hono()
           return c.json({ message: 'Failed to update user.' }, 500);
         }
 
+        await recordAuditLog(c, {
+          action: 'user.update',
+          entityType: 'user',
+          entityId: id,
+          before: existingUser[0],
+          after: updatedUser[0],
+        });
+
         // eslint-disable-next-line @typescript-eslint/no-unused-vars
-        const { password: _password, ...userWithoutPassword } = updatedUser[0];
+        const { password: _password, totpSecret: _secret, ...userWithoutPassword } = updatedUser[0];
 
         return c.json({
           success: true,
@@ -249,35 +333,124 @@ export const userRoute = new Hono()
     }
   )
   // Delete user (soft delete)
-  .delete('/:id', zValidator('param', userIdSchema), async (c) => {
-    try {
-      const { id } = c.req.valid('param');
-
-      // Check if user exists
-      const existingUser = await db
-        .select()
-        .from(usersTable)
-        .where(and(eq(usersTable.id, id), isNull(usersTable.deletedAt)));
-
-      if (existingUser.length === 0) {
-        return c.json({ message: 'User not found.' }, 404);
+  .delete(
+    '/:id',
+    requirePermission(PERMISSIONS.USERS_WRITE),
+    zValidator('param', userIdSchema),
+    async (c) => {
+      try {
+        const { id } = c.req.valid('param');
+
+        // Check if user exists
+        const existingUser = await db
+          .select()
+          .from(usersTable)
+          .where(and(eq(usersTable.id, id), isNull(usersTable.deletedAt)));
+
+        if (existingUser.length === 0) {
+          return c.json({ message: 'User not found.' }, 404);
+        }
+
+        // Soft delete user
+        const deletedAt = new Date();
+        await db
+          .update(usersTable)
+          .set({
+            deletedAt,
+            updatedAt: new Date(),
+          })
+          .where(eq(usersTable.id, id));
+
+        await recordAuditLog(c, {
+          action: 'user.delete',
+          entityType: 'user',
+          entityId: id,
+          before: existingUser[0],
+          after: { ...existingUser[0], deletedAt },
+        });
+
+        return c.json({
+          success: true,
+          message: 'User deleted successfully.',
+        });
+      } catch (error) {
+        logger.error(`Error deleting user: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
       }
+    }
+  )
+  // Unlock a user locked out after too many failed logins
+  .post(
+    '/:id/unlock',
+    requirePermission(PERMISSIONS.USERS_WRITE),
+    zValidator('param', userIdSchema),
+    async (c) => {
+      try {
+        const { id } = c.req.valid('param');
 
-      // Soft delete user
-      await db
-        .update(usersTable)
-        .set({
-          deletedAt: new Date(),
-          updatedAt: new Date(),
-        })
-        .where(eq(usersTable.id, id));
-
-      return c.json({
-        success: true,
-        message: 'User deleted successfully.',
-      });
-    } catch (error) {
-      logger.error(`Error deleting user: ${error}`);
-      return c.json({ message: 'Internal server error.' }, 500);
+        const existingUser = await db
+          .select({ id: usersTable.id, lockedUntil: usersTable.lockedUntil })
+          .from(usersTable)
+          .where(and(eq(usersTable.id, id), isNull(usersTable.deletedAt)));
+
+        if (existingUser.length === 0) {
+          return c.json({ message: 'User not found.' }, 404);
+        }
+
+        await unlockUser(id);
+
+        await recordAuditLog(c, {
+          action: 'user.unlock',
+          entityType: 'user',
+          entityId: id,
+          before: { lockedUntil: existingUser[0].lockedUntil },
+          after: { lockedUntil: null },
+        });
+
+        return c.json({
+          success: true,
+          message: 'User unlocked successfully.',
+        });
+      } catch (error) {
+        logger.error(`Error unlocking user: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
+      }
+    }
+  )
+  // Revoke every session of the user, signing them out on all devices
+  .delete(
+    '/:id/sessions',
+    requirePermission(PERMISSIONS.USERS_WRITE),
+    zValidator('param', userIdSchema),
+    async (c) => {
+      try {
+        const { id } = c.req.valid('param');
+
+        const existingUser = await db
+          .select({ id: usersTable.id })
+          .from(usersTable)
+          .where(and(eq(usersTable.id, id), isNull(usersTable.deletedAt)));
+
+        if (existingUser.length === 0) {
+          return c.json({ message: 'User not found.' }, 404);
+        }
+
+        const revoked = await revokeUserSessions(id);
+
+        await recordAuditLog(c, {
+          action: 'user.revoke_sessions',
+          entityType: 'user',
+          entityId: id,
+        });
+
+        return c.json({
+          success: true,
+          message: 'User sessions revoked successfully.',
+          data: { revoked },
+        });
+      } catch (error) {
+        logger.error(`Error revoking user sessions: ${error}`);
+        return c.json({ message: 'Internal server error.' }, 500);
+      }
     }
-  });
+  );
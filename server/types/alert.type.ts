@@ -0,0 +1,53 @@
+export const ALERT_COMPARATORS = ['gt', 'gte', 'lt', 'lte', 'eq', 'neq'] as const;
+
+export type AlertComparator = (typeof ALERT_COMPARATORS)[number];
+
+export type AlertRuleType = {
+  id: number;
+  name: string;
+  serviceId: number | null;
+  serviceType: number | null; // 1: server, 2: vps, 3: shared hosting
+  metricPath: string;
+  comparator: AlertComparator;
+  threshold: number;
+  durationSeconds: number;
+  status: number; // 0: inactive, 1: active
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type AlertType = {
+  id: number;
+  ruleId: number;
+  serviceId: number;
+  status: number; // 0: resolved, 1: firing
+  value: number;
+  firedAt: string;
+  resolvedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export enum ALERT_STATUS {
+  RESOLVED = 0,
+  FIRING = 1,
+}
+
+export enum ALERT_RULE_STATUS {
+  INACTIVE = 0,
+  ACTIVE = 1,
+}
+
+export const ALERT_COMPARATOR_LABELS: Record<AlertComparator, string> = {
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+  eq: '=',
+  neq: '!=',
+};
+
+export const ALERT_STATUS_LABELS: { [key: number]: string } = {
+  [ALERT_STATUS.RESOLVED]: 'Resolved',
+  [ALERT_STATUS.FIRING]: 'Firing',
+};
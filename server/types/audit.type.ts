@@ -0,0 +1,42 @@
+export const AUDIT_ACTIONS = [
+  'user.create',
+  'user.update',
+  'user.delete',
+  'user.revoke_sessions',
+  'user.unlock',
+  'service.create',
+  'service.update',
+  'service.delete',
+  'service.export',
+  'auth.login',
+  'auth.logout',
+  'auth.password_reset',
+  'auth.mfa_enable',
+  'auth.mfa_disable',
+  'auth.token_create',
+  'auth.token_revoke',
+  'settings.update',
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export const AUDIT_ENTITY_TYPES = ['user', 'service', 'settings'] as const;
+
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number];
+
+// Changed fields only, with secrets replaced by a placeholder
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export type AuditLogType = {
+  id: number;
+  actorId: number | null;
+  actorName: string | null;
+  actorEmail: string | null;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: number | null;
+  changes: AuditChanges | null;
+  ip: string;
+  userAgent: string | null;
+  createdAt: string;
+};
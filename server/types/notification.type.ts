@@ -0,0 +1,57 @@
+export const NOTIFICATION_CHANNEL_TYPES = ['webhook', 'email', 'slack', 'discord'] as const;
+
+export type NotificationChannelType = (typeof NOTIFICATION_CHANNEL_TYPES)[number];
+
+export const NOTIFICATION_EVENTS = ['alert.firing', 'alert.resolved', 'test'] as const;
+
+export type NotificationEvent = (typeof NOTIFICATION_EVENTS)[number];
+
+export type WebhookChannelConfig = {
+  url: string;
+  headers?: Record<string, string>;
+};
+
+export type EmailChannelConfig = {
+  to: string[];
+};
+
+export type ChatChannelConfig = {
+  url: string;
+};
+
+export type NotificationChannelConfig =
+  WebhookChannelConfig | EmailChannelConfig | ChatChannelConfig;
+
+// Values available to message templates as {{key}}
+export type NotificationVariables = Record<string, string | number | null>;
+
+export type NotificationMessage = {
+  event: NotificationEvent;
+  subject: string;
+  body: string;
+  variables: NotificationVariables;
+};
+
+export enum NOTIFICATION_CHANNEL_STATUS {
+  INACTIVE = 0,
+  ACTIVE = 1,
+}
+
+export enum NOTIFICATION_DELIVERY_STATUS {
+  PENDING = 0,
+  SENT = 1,
+  FAILED = 2,
+}
+
+export const NOTIFICATION_CHANNEL_TYPE_LABELS: Record<NotificationChannelType, string> = {
+  webhook: 'Webhook',
+  email: 'Email',
+  slack: 'Slack',
+  discord: 'Discord',
+};
+
+export const NOTIFICATION_DELIVERY_STATUS_LABELS: { [key: number]: string } = {
+  [NOTIFICATION_DELIVERY_STATUS.PENDING]: 'Pending',
+  [NOTIFICATION_DELIVERY_STATUS.SENT]: 'Sent',
+  [NOTIFICATION_DELIVERY_STATUS.FAILED]: 'Failed',
+};
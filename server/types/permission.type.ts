@@ -0,0 +1,36 @@
+export const PERMISSIONS = {
+  USERS_READ: 'users.read',
+  USERS_WRITE: 'users.write',
+  SERVICES_READ: 'services.read',
+  SERVICES_WRITE: 'services.write',
+  SERVICES_SYNC: 'services.sync',
+  ALERTS_READ: 'alerts.read',
+  ALERTS_WRITE: 'alerts.write',
+  SCHEDULER_MANAGE: 'scheduler.manage',
+  SECURITY_READ: 'security.read',
+  AUDIT_READ: 'audit.read',
+  SETTINGS_MANAGE: 'settings.manage',
+} as const;
+
+export type Permission = (typeof PERMISSIONS)[keyof typeof PERMISSIONS];
+
+// Seeded role ids, see the roles migration
+export enum ROLE {
+  ADMIN = 1,
+  OPERATOR = 2,
+  VIEWER = 3,
+}
+
+export const ROLE_NAMES = {
+  [ROLE.ADMIN]: 'admin',
+  [ROLE.OPERATOR]: 'operator',
+  [ROLE.VIEWER]: 'viewer',
+} as const;
+
+export type RoleName = (typeof ROLE_NAMES)[ROLE];
+
+export const ROLE_OPTIONS = [
+  { value: ROLE.ADMIN, label: 'Admin' },
+  { value: ROLE.OPERATOR, label: 'Operator' },
+  { value: ROLE.VIEWER, label: 'Viewer' },
+];
@@ -0,0 +1,38 @@
+export const SCREENING_MODES = ['off', 'log', 'block'] as const;
+
+export type ScreeningMode = (typeof SCREENING_MODES)[number];
+
+// Checks applied by the request screening middleware
+export const SCREENING_RULES = ['suspicious_pattern', 'blocked_user_agent'] as const;
+
+export type ScreeningRule = (typeof SCREENING_RULES)[number];
+
+// Exact client IPs, user agent substrings and path prefixes exempt from a rule
+export type ScreeningAllowlist = {
+  ips: string[];
+  userAgents: string[];
+  paths: string[];
+};
+
+export const SECURITY_EVENT_TYPES = [
+  ...SCREENING_RULES,
+  'refresh_token_reuse',
+  'account_lockout',
+] as const;
+
+export type SecurityEventType = (typeof SECURITY_EVENT_TYPES)[number];
+
+export type SecurityEventDetails = Record<string, unknown>;
+
+export type SecurityEvent = {
+  id: number;
+  type: SecurityEventType;
+  blocked: number; // 0: logged only, 1: blocked
+  ip: string;
+  userAgent: string | null;
+  method: string;
+  path: string;
+  userId: number | null;
+  details: SecurityEventDetails | null;
+  createdAt: string;
+};
@@ -5,7 +5,15 @@ export type ServiceType = {
   type: number; // 1: server, 2: vps, 3: shared hosting
   status: number; // 0: inactive, 1: active
   resStatusApiUrl: string;
-  resStatusApiKey: string;
+  resStatusApiKeyHint: string | null; // masked, e.g. ****abcd
+  syncIntervalSeconds: number | null;
+  lastSyncedAt: string | null;
+  checkUrl: string | null;
+  checkIntervalSeconds: number | null;
+  ingestTokenHint: string | null; // masked push ingest token, null: push disabled
+  rawRetentionDays: number | null;
+  hourlyRetentionDays: number | null;
+  dailyRetentionDays: number | null; // 0: keep forever
   createdAt: string;
   updatedAt: string;
 };
@@ -13,13 +21,37 @@ export type ServiceType = {
 export type ServiceLogType = {
   id: number;
   serviceId: number;
-  data: Record<string, unknown> | SharedHostingHistoryData; // JSON data from the log
-  recordId: number;
-  recordedAt: string;
+  // JSON data from the log, or metric aggregates for rollups
+  data:
+    | Record<string, unknown>
+    | SharedHostingHistoryData
+    | ServerMetricsData
+    | VpsMetricsData
+    | MetricRollupData;
+  recordId: number | null; // null for rollups
+  recordedAt: string; // bucket start for rollups
+  sampleCount?: number; // rollups only
   createdAt: string;
   updatedAt: string;
 };
 
+export const LOG_ROLLUP_RESOLUTIONS = ['hourly', 'daily'] as const;
+
+export type LogRollupResolution = (typeof LOG_ROLLUP_RESOLUTIONS)[number];
+
+export type LogResolution = 'raw' | LogRollupResolution;
+
+export type MetricRollup = {
+  count: number;
+  min: number;
+  max: number;
+  sum: number;
+  last: number;
+};
+
+// Aggregates of each metric field over the rolled-up logs, keyed by field name
+export type MetricRollupData = Record<string, MetricRollup>;
+
 export type SharedHostingHistoryData = {
   id: number;
   base_path: string;
@@ -44,6 +76,68 @@ export type SharedHostingHistoryResponse = {
   meta: SharedHostingHistoryMeta;
 };
 
+export type ServerMetricsData = {
+  id: number;
+  hostname: string;
+  cpu_usage_percent: number;
+  cpu_cores: number;
+  memory_total_mb: number;
+  memory_used_mb: number;
+  swap_total_mb: number;
+  swap_used_mb: number;
+  load_1: number;
+  load_5: number;
+  load_15: number;
+  disk_total_mb: number;
+  disk_used_mb: number;
+  disk_available_mb: number;
+  network_rx_bytes: number;
+  network_tx_bytes: number;
+  uptime_seconds: number;
+  checked_at: string;
+};
+
+export type VpsMetricsData = {
+  id: number;
+  hostname: string;
+  virtualization: string; // e.g. kvm, openvz, xen
+  cpu_usage_percent: number;
+  cpu_steal_percent: number;
+  cpu_cores: number;
+  memory_total_mb: number;
+  memory_used_mb: number;
+  load_1: number;
+  load_5: number;
+  load_15: number;
+  disk_total_mb: number;
+  disk_used_mb: number;
+  disk_available_mb: number;
+  network_rx_bytes: number;
+  network_tx_bytes: number;
+  bandwidth_used_mb: number;
+  uptime_seconds: number;
+  checked_at: string;
+};
+
+export type AgentMetricsMeta = {
+  hostname: string;
+  start_date: string;
+  end_date: string;
+  total_records: number;
+};
+
+export type ServerMetricsResponse = {
+  success: boolean;
+  data: ServerMetricsData[];
+  meta: AgentMetricsMeta;
+};
+
+export type VpsMetricsResponse = {
+  success: boolean;
+  data: VpsMetricsData[];
+  meta: AgentMetricsMeta;
+};
+
 export type ServiceTypeLabels = {
   [key: number]: string;
 };
@@ -80,3 +174,111 @@ export const SERVICE_STATUS_OPTIONS = [
   { value: SERVICE_STATUS.ACTIVE, label: 'Active' },
   { value: SERVICE_STATUS.INACTIVE, label: 'Inactive' },
 ];
+
+// Numeric fields reported in service_logs.data for each service type, usable as metrics
+export const SERVICE_TYPE_METRIC_FIELDS: { [key: number]: string[] } = {
+  [SERVICE_TYPE.SERVER]: [
+    'cpu_usage_percent',
+    'cpu_cores',
+    'memory_total_mb',
+    'memory_used_mb',
+    'swap_total_mb',
+    'swap_used_mb',
+    'load_1',
+    'load_5',
+    'load_15',
+    'disk_total_mb',
+    'disk_used_mb',
+    'disk_available_mb',
+    'network_rx_bytes',
+    'network_tx_bytes',
+    'uptime_seconds',
+  ],
+  [SERVICE_TYPE.VPS]: [
+    'cpu_usage_percent',
+    'cpu_steal_percent',
+    'cpu_cores',
+    'memory_total_mb',
+    'memory_used_mb',
+    'load_1',
+    'load_5',
+    'load_15',
+    'disk_total_mb',
+    'disk_used_mb',
+    'disk_available_mb',
+    'network_rx_bytes',
+    'network_tx_bytes',
+    'bandwidth_used_mb',
+    'uptime_seconds',
+  ],
+  [SERVICE_TYPE.SHARED_HOSTING]: [
+    'file_count',
+    'disk_usage_mb',
+    'available_inode',
+    'available_space_mb',
+  ],
+};
+
+// Descriptive fields reported in service_logs.data for each service type
+export const SERVICE_TYPE_INFO_FIELDS: { [key: number]: string[] } = {
+  [SERVICE_TYPE.SERVER]: ['hostname'],
+  [SERVICE_TYPE.VPS]: ['hostname', 'virtualization'],
+  [SERVICE_TYPE.SHARED_HOSTING]: ['base_path'],
+};
+
+export const LOG_EXPORT_FORMATS = ['csv', 'ndjson'] as const;
+
+export type LogExportFormat = (typeof LOG_EXPORT_FORMATS)[number];
+
+export const SERVICE_DOCUMENT_FORMATS = ['json', 'yaml'] as const;
+
+export type ServiceDocumentFormat = (typeof SERVICE_DOCUMENT_FORMATS)[number];
+
+// One service in an export/import document; ids, hints and sync state aren't carried over
+export type ServiceDocumentEntry = {
+  name: string;
+  description: string;
+  type: number;
+  status: number;
+  resStatusApiUrl: string;
+  resStatusApiKeyEncrypted?: string; // only readable with the same APP_ENCRYPTION_KEYS
+  syncIntervalSeconds: number | null;
+  checkUrl: string | null;
+  checkIntervalSeconds: number | null;
+  rawRetentionDays: number | null;
+  hourlyRetentionDays: number | null;
+  dailyRetentionDays: number | null;
+};
+
+export type ServiceDocument = {
+  version: number;
+  exportedAt: string;
+  services: ServiceDocumentEntry[];
+};
+
+export type ServiceImportAction = 'create' | 'update' | 'skip' | 'invalid';
+
+export type ServiceImportPlanItem = {
+  index: number;
+  name: string | null;
+  action: ServiceImportAction;
+  changes?: string[]; // updated fields
+  errors?: string[];
+};
+
+export const METRIC_BUCKET_SECONDS = {
+  '5m': 5 * 60,
+  '1h': 60 * 60,
+  '1d': 24 * 60 * 60,
+};
+
+export type MetricBucket = keyof typeof METRIC_BUCKET_SECONDS;
+
+export type MetricBucketValue = {
+  bucket_start: string;
+  count: number;
+  min: number | null;
+  max: number | null;
+  avg: number | null;
+  last: number | null;
+};
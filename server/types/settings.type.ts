@@ -0,0 +1,8 @@
+// Application-wide settings managed by admins, stored as key/value rows
+export type AppSettings = {
+  requireTwoFactor: boolean;
+};
+
+export const DEFAULT_APP_SETTINGS: AppSettings = {
+  requireTwoFactor: false,
+};